@@ -0,0 +1,21 @@
+import { vi } from "vitest";
+
+// `@raycast/api` only exists inside Raycast. Tests get this stand-in instead, see `vitest.config.ts`.
+export const Toast = { Style: { Success: "SUCCESS", Failure: "FAILURE", Animated: "ANIMATED" } };
+export const Icon = { Tag: "tag", Star: "star", Folder: "folder" };
+export const LaunchType = { UserInitiated: "userInitiated", Background: "background" };
+
+export const showToast = vi.fn();
+export const showHUD = vi.fn();
+export const launchCommand = vi.fn();
+export const open = vi.fn();
+export const getApplications = vi.fn(async () => []);
+export const getPreferenceValues = vi.fn(() => ({}));
+
+const items = new Map<string, string>();
+export const LocalStorage = {
+  getItem: async (key: string) => items.get(key),
+  setItem: async (key: string, value: string) => void items.set(key, value),
+  removeItem: async (key: string) => void items.delete(key),
+  allItems: async () => Object.fromEntries(items),
+};
@@ -0,0 +1,122 @@
+import { Application } from "@raycast/api";
+import { describe, expect, it } from "vitest";
+import { CommandRunner, parseRunningApps, quitApps } from "./app-control";
+
+const LSAPPINFO_OUTPUT = `
+ 1) "Finder" ASN:0x0-0x1001:
+    bundleID="com.apple.finder"
+    bundle path="/System/Library/CoreServices/Finder.app"
+    pid = 412 type="Foreground" flavor=3 Version="14.0"
+ 2) "Slack" ASN:0x0-0x2002:
+    bundleID="com.tinyspeck.slackmacgap"
+    pid = 1337 type="Foreground" flavor=3
+ 3) "loginwindow" ASN:0x0-0x3003:
+    pid = 99 type="UIElement"
+`;
+
+function app(name: string, bundleId?: string): Application {
+  return { name, path: `/Applications/${name}.app`, bundleId };
+}
+
+/**
+ * Pretends to be `lsappinfo`, `osascript` and `kill` for a set of running apps.
+ * Apps in `ignoreQuit` keep running until they are killed.
+ */
+function createFakeSystem(running: Record<string, number>, { ignoreQuit = [] as string[] } = {}) {
+  const apps = new Map(Object.entries(running));
+  const calls: string[][] = [];
+  const runner: CommandRunner = async (file, args) => {
+    calls.push([file, ...args]);
+    if (file === "lsappinfo") {
+      const stdout = [...apps]
+        .map(([bundleId, pid], index) => ` ${index + 1}) "App" ASN:0x0:\n    bundleID="${bundleId}"\n    pid = ${pid}`)
+        .join("\n");
+      return { stdout, stderr: "" };
+    }
+    if (file === "osascript") {
+      const bundleId = args[args.length - 1];
+      if (!ignoreQuit.includes(bundleId)) apps.delete(bundleId);
+      return { stdout: "", stderr: "" };
+    }
+    if (file === "kill") {
+      for (const [bundleId, pid] of apps) if (String(pid) === args[1]) apps.delete(bundleId);
+      return { stdout: "", stderr: "" };
+    }
+    throw new Error(`Unexpected command ${file}`);
+  };
+  return { runner, calls };
+}
+
+const noSleep = async () => undefined;
+
+describe("parseRunningApps", () => {
+  it("maps bundle ids to pids and skips processes without a bundle id", () => {
+    expect(parseRunningApps(LSAPPINFO_OUTPUT)).toEqual(
+      new Map([
+        ["com.apple.finder", 412],
+        ["com.tinyspeck.slackmacgap", 1337],
+      ]),
+    );
+  });
+
+  it("returns an empty map for empty output", () => {
+    expect(parseRunningApps("")).toEqual(new Map());
+  });
+});
+
+describe("quitApps", () => {
+  it("quits running apps and reports the ones that weren't running", async () => {
+    const { runner, calls } = createFakeSystem({ "com.slack": 10 });
+    const slack = app("Slack", "com.slack");
+    const notes = app("Notes", "com.apple.Notes");
+
+    const report = await quitApps([slack, notes], { runner, sleep: noSleep });
+    expect(report).toEqual({ quit: [slack], forceQuit: [], notRunning: [notes], failed: [] });
+    expect(calls.filter(([file]) => file === "osascript")).toHaveLength(1);
+  });
+
+  it("passes the bundle id as an argument instead of script source", async () => {
+    const bundleId = "com.evil) & (do shell script rm";
+    const { runner, calls } = createFakeSystem({ [bundleId]: 10 });
+    await quitApps([app("Evil", bundleId)], { runner, sleep: noSleep });
+    const [, ...args] = calls.find(([file]) => file === "osascript")!;
+    expect(args.slice(0, -1).join("\n")).not.toContain("do shell script");
+    expect(args[args.length - 1]).toBe(bundleId);
+  });
+
+  it("force-quits apps that are still running after the timeout", async () => {
+    const { runner, calls } = createFakeSystem({ "com.stuck": 42 }, { ignoreQuit: ["com.stuck"] });
+    const stuck = app("Stuck", "com.stuck");
+
+    const report = await quitApps([stuck], { runner, sleep: noSleep, timeoutMs: 1000, pollIntervalMs: 250 });
+    expect(report).toEqual({ quit: [], forceQuit: [stuck], notRunning: [], failed: [] });
+    expect(calls).toContainEqual(["kill", "-KILL", "42"]);
+    // One initial listing, four polls until the timeout and one after the kill.
+    expect(calls.filter(([file]) => file === "lsappinfo")).toHaveLength(6);
+  });
+
+  it("reports apps that time out as failed when force-quitting is off", async () => {
+    const { runner, calls } = createFakeSystem({ "com.stuck": 42 }, { ignoreQuit: ["com.stuck"] });
+    const stuck = app("Stuck", "com.stuck");
+
+    const report = await quitApps([stuck], { runner, sleep: noSleep, timeoutMs: 500, forceQuit: false });
+    expect(report.failed).toEqual([{ app: stuck, reason: "Did not quit in time" }]);
+    expect(calls.some(([file]) => file === "kill")).toBe(false);
+  });
+
+  it("reports apps without a bundle id as failed without running anything for them", async () => {
+    const { runner, calls } = createFakeSystem({});
+    const report = await quitApps([app("Script")], { runner, sleep: noSleep });
+    expect(report.failed).toEqual([{ app: app("Script"), reason: "No bundle id" }]);
+    expect(calls).toEqual([["lsappinfo", "list"]]);
+  });
+
+  it("rejects when the running apps can't be listed", async () => {
+    const runner: CommandRunner = async () => {
+      throw new Error("lsappinfo: command not found");
+    };
+    await expect(quitApps([app("Slack", "com.slack")], { runner, sleep: noSleep })).rejects.toThrow(
+      "command not found",
+    );
+  });
+});
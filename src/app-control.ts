@@ -0,0 +1,179 @@
+import { Application } from "@raycast/api";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { ActionSummary } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Runs an executable with an argument list. Arguments are never passed through a
+ * shell, so app names and bundle ids can't inject anything.
+ */
+export type CommandRunner = (file: string, args: string[]) => Promise<{ stdout: string; stderr: string }>;
+
+export const execFileRunner: CommandRunner = async (file, args) => {
+  const { stdout, stderr } = await execFileAsync(file, args);
+  return { stdout, stderr };
+};
+
+export interface AppControlOptions {
+  runner?: CommandRunner;
+  /** How long to wait for a graceful quit before force-quitting */
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  /** Kill apps that ignore the quit request within `timeoutMs` */
+  forceQuit?: boolean;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface QuitReport {
+  quit: Application[];
+  forceQuit: Application[];
+  notRunning: Application[];
+  failed: { app: Application; reason: string }[];
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// The bundle id arrives as `argv`, never as part of the script source.
+const QUIT_SCRIPT = ["-e", "on run argv", "-e", "tell application id (item 1 of argv) to quit", "-e", "end run"];
+const ACTIVATE_SCRIPT = [
+  "-e",
+  "on run argv",
+  "-e",
+  "tell application id (item 1 of argv) to activate",
+  "-e",
+  "end run",
+];
+const HIDE_SCRIPT = [
+  "-e",
+  "on run argv",
+  "-e",
+  'tell application "System Events" to set visible of (first process whose bundle identifier is (item 1 of argv)) to false',
+  "-e",
+  "end run",
+];
+
+/* -------------------------------------------------------------------------- */
+/*                               Running Apps                                 */
+/* -------------------------------------------------------------------------- */
+/** Parses `lsappinfo list` into bundle id → pid */
+export function parseRunningApps(output: string): Map<string, number> {
+  const running = new Map<string, number>();
+  for (const block of output.split(/^\s*\d+\)\s/m)) {
+    const bundleId = /bundleID="([^"]+)"/.exec(block)?.[1];
+    const pid = /\bpid\s*=\s*(\d+)/.exec(block)?.[1];
+    if (bundleId && pid) running.set(bundleId, Number(pid));
+  }
+  return running;
+}
+
+export async function getRunningApps({ runner = execFileRunner }: AppControlOptions = {}): Promise<
+  Map<string, number>
+> {
+  const { stdout } = await runner("lsappinfo", ["list"]);
+  return parseRunningApps(stdout);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Quitting                                  */
+/* -------------------------------------------------------------------------- */
+/**
+ * Asks every running app to quit and waits for it to exit. Apps still running
+ * after the timeout are force-quit (unless disabled). Apps without a bundle id
+ * can't be targeted safely and are reported as failed.
+ */
+export async function quitApps(apps: Application[], options: AppControlOptions = {}): Promise<QuitReport> {
+  const {
+    runner = execFileRunner,
+    timeoutMs = 5000,
+    pollIntervalMs = 250,
+    forceQuit = true,
+    sleep = defaultSleep,
+  } = options;
+  const report: QuitReport = { quit: [], forceQuit: [], notRunning: [], failed: [] };
+
+  let running = await getRunningApps({ runner });
+  const pending: Application[] = [];
+
+  for (const app of apps) {
+    if (!app.bundleId) {
+      report.failed.push({ app, reason: "No bundle id" });
+    } else if (!running.has(app.bundleId)) {
+      report.notRunning.push(app);
+    } else {
+      try {
+        await runner("osascript", [...QUIT_SCRIPT, app.bundleId]);
+        pending.push(app);
+      } catch (err) {
+        report.failed.push({ app, reason: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  }
+
+  const stillRunning = () => pending.filter((app) => running.has(app.bundleId!));
+  for (let waited = 0; stillRunning().length > 0 && waited < timeoutMs; waited += pollIntervalMs) {
+    await sleep(pollIntervalMs);
+    running = await getRunningApps({ runner });
+  }
+
+  const stubborn = stillRunning();
+  report.quit.push(...pending.filter((app) => !stubborn.includes(app)));
+  if (stubborn.length === 0) return report;
+
+  if (!forceQuit) {
+    report.failed.push(...stubborn.map((app) => ({ app, reason: "Did not quit in time" })));
+    return report;
+  }
+
+  for (const app of stubborn) {
+    try {
+      await runner("kill", ["-KILL", String(running.get(app.bundleId!))]);
+    } catch {
+      /* checked below */
+    }
+  }
+  await sleep(pollIntervalMs);
+  running = await getRunningApps({ runner });
+  for (const app of stubborn) {
+    if (running.has(app.bundleId!)) report.failed.push({ app, reason: "Could not be force-quit" });
+    else report.forceQuit.push(app);
+  }
+  return report;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Single App                                 */
+/* -------------------------------------------------------------------------- */
+export function isAppRunning(app: Application, running: Map<string, number>): boolean {
+  return !!app.bundleId && running.has(app.bundleId);
+}
+
+export async function activateApp(app: Application, { runner = execFileRunner }: AppControlOptions = {}) {
+  if (!app.bundleId) throw new Error(`${app.name} has no bundle id`);
+  await runner("osascript", [...ACTIVATE_SCRIPT, app.bundleId]);
+}
+
+export async function hideApp(app: Application, { runner = execFileRunner }: AppControlOptions = {}) {
+  if (!app.bundleId) throw new Error(`${app.name} has no bundle id`);
+  await runner("osascript", [...HIDE_SCRIPT, app.bundleId]);
+}
+
+export function describeQuitReport(report: QuitReport): ActionSummary {
+  return {
+    title: `Quit ${report.quit.length + report.forceQuit.length} app(s)`,
+    message: summarizeQuitReport(report) || undefined,
+    failed: report.failed.length > 0,
+  };
+}
+
+export function summarizeQuitReport(report: QuitReport): string {
+  return [
+    report.forceQuit.length > 0 && `${report.forceQuit.length} force-quit`,
+    report.notRunning.length > 0 && `${report.notRunning.length} not running`,
+    report.failed.length > 0 &&
+      `failed: ${report.failed.map(({ app, reason }) => `${app.name} (${reason})`).join(", ")}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
@@ -0,0 +1,31 @@
+import { Application } from "@raycast/api";
+import { appKey } from "./helpers";
+import { AppDetails, AppDetailsMap } from "./types";
+
+export function getAppDetails(app: Application, appDetails: AppDetailsMap): AppDetails {
+  return appDetails[appKey(app)] ?? {};
+}
+
+/** The name to show for an app, its display name override if it has one */
+export function getAppDisplayName(app: Application, appDetails: AppDetailsMap): string {
+  return getAppDetails(app, appDetails).displayName || app.name;
+}
+
+export function isEmptyAppDetails(details: AppDetails): boolean {
+  return !details.displayName && !details.aliases?.length && !details.keywords?.length;
+}
+
+/** Splits comma-separated input into trimmed terms, dropping blanks and case-insensitive duplicates */
+export function parseTermList(text: string): string[] {
+  const terms = text
+    .split(",")
+    .map((term) => term.trim().replace(/\s+/g, " "))
+    .filter(Boolean);
+  return terms.filter(
+    (term, index) => terms.findIndex((other) => other.toLowerCase() === term.toLowerCase()) === index,
+  );
+}
+
+export function formatTermList(terms: string[] | undefined): string {
+  return (terms ?? []).join(", ");
+}
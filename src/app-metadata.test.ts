@@ -0,0 +1,75 @@
+import { readFile, stat } from "fs/promises";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { BundleReader, createAppMetadataCache } from "./app-metadata";
+import { createMemoryBackend } from "./storage";
+
+const FIXTURES = join(__dirname, "..", "test", "fixtures");
+
+/** Reads the fixture bundles with fixed modification times, counting every plist read */
+function createFixtureReader(mtimeMs = 1000) {
+  const reads: string[] = [];
+  const reader: BundleReader = {
+    async readFile(path) {
+      reads.push(path);
+      return readFile(path);
+    },
+    async stat(path) {
+      await stat(path);
+      return { mtimeMs };
+    },
+  };
+  return { reader, reads };
+}
+
+describe("createAppMetadataCache", () => {
+  it("reads the Info.plist of a bundle with an XML plist", async () => {
+    const { reader } = createFixtureReader();
+    const cache = createAppMetadataCache({ reader, storage: createMemoryBackend() });
+    expect(await cache.getInfo(join(FIXTURES, "Xml Example.app"))).toEqual({
+      bundleId: "com.example.xml",
+      version: "1.92.0",
+      build: "1920",
+      minimumSystemVersion: "12.0",
+      category: "public.app-category.developer-tools",
+      copyright: "© 2026 Example & Co.",
+      modifiedAt: 1000,
+    });
+  });
+
+  it("reads the Info.plist of a bundle with a binary plist", async () => {
+    const { reader } = createFixtureReader();
+    const cache = createAppMetadataCache({ reader, storage: createMemoryBackend() });
+    expect(await cache.getInfo(join(FIXTURES, "Binary Example.app"))).toEqual({
+      bundleId: "com.example.binary",
+      version: "3.1",
+      build: "310",
+      minimumSystemVersion: undefined,
+      category: "public.app-category.productivity",
+      copyright: "Ünïcödé ✓",
+      modifiedAt: 1000,
+    });
+  });
+
+  it("reuses stored metadata until the bundle changes", async () => {
+    const storage = createMemoryBackend();
+    const appPath = join(FIXTURES, "Xml Example.app");
+    const first = createFixtureReader();
+    await createAppMetadataCache({ reader: first.reader, storage }).getInfo(appPath);
+
+    const unchanged = createFixtureReader();
+    await createAppMetadataCache({ reader: unchanged.reader, storage }).getInfo(appPath);
+    expect(unchanged.reads).toEqual([]);
+
+    const updated = createFixtureReader(2000);
+    const info = await createAppMetadataCache({ reader: updated.reader, storage }).getInfo(appPath);
+    expect(updated.reads).toHaveLength(1);
+    expect(info.modifiedAt).toBe(2000);
+  });
+
+  it("falls back to the bundle dates when there is no Info.plist", async () => {
+    const { reader } = createFixtureReader();
+    const cache = createAppMetadataCache({ reader, storage: createMemoryBackend() });
+    expect(await cache.getInfo(FIXTURES)).toEqual({ modifiedAt: 1000 });
+  });
+});
@@ -0,0 +1,212 @@
+import { stat as fsStat, readFile as fsReadFile } from "fs/promises";
+import { join } from "path";
+import { CommandRunner, execFileRunner } from "./app-control";
+import { APP_METADATA_KEY } from "./constants";
+import { isPlistDict, parsePlist, PlistValue } from "./plist";
+import { localStorageBackend, StorageBackend } from "./storage";
+import { AppBundleInfo } from "./types";
+
+/** Where macOS apps keep their Info.plist, and where wrapped iOS apps keep it */
+const INFO_PLIST_PATHS = ["Contents/Info.plist", "Info.plist"];
+/** Oldest entries are dropped beyond this, so uninstalled apps don't pile up */
+const MAX_CACHED_APPS = 500;
+
+/** File access used to read app bundles; swap it to read fixture bundles */
+export interface BundleReader {
+  readFile(path: string): Promise<Buffer>;
+  /** Rejects when the path does not exist */
+  stat(path: string): Promise<{ mtimeMs: number }>;
+}
+
+export const fsBundleReader: BundleReader = {
+  readFile: (path) => fsReadFile(path),
+  stat: (path) => fsStat(path),
+};
+
+export interface AppMetadataOptions {
+  reader?: BundleReader;
+  /** Runs `du` for the size on disk */
+  runner?: CommandRunner;
+  /** Where results are kept between launches */
+  storage?: StorageBackend;
+}
+
+interface CachedMetadata {
+  /** Modification times of the bundle and its Info.plist; a change invalidates the entry */
+  stamp: string;
+  info: AppBundleInfo;
+  sizeBytes?: number;
+  cachedAt: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Reading                                   */
+/* -------------------------------------------------------------------------- */
+function stringField(plist: PlistValue, key: string): string | undefined {
+  if (!isPlistDict(plist)) return undefined;
+  const value = plist[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/** The fields of an Info.plist shown for an app */
+export function readBundleInfo(plist: PlistValue, modifiedAt: number): AppBundleInfo {
+  return {
+    bundleId: stringField(plist, "CFBundleIdentifier"),
+    version: stringField(plist, "CFBundleShortVersionString"),
+    build: stringField(plist, "CFBundleVersion"),
+    minimumSystemVersion: stringField(plist, "LSMinimumSystemVersion"),
+    category: stringField(plist, "LSApplicationCategoryType"),
+    copyright: stringField(plist, "NSHumanReadableCopyright"),
+    modifiedAt,
+  };
+}
+
+/** Parses `du -sk` output into bytes */
+export function parseDiskUsage(output: string): number | undefined {
+  const kilobytes = Number(/^\s*(\d+)/.exec(output)?.[1]);
+  return Number.isFinite(kilobytes) ? kilobytes * 1024 : undefined;
+}
+
+/** Sizes the way Finder shows them, in powers of 1000 */
+export function formatBytes(bytes: number): string {
+  const units = ["bytes", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[0]}` : `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+/** "Developer Tools" for `public.app-category.developer-tools` */
+export function formatAppCategory(category: string): string {
+  return category
+    .replace(/^public\.app-category\./, "")
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Cache                                    */
+/* -------------------------------------------------------------------------- */
+export interface AppMetadataCache {
+  /** Info.plist fields and dates of the bundle at `appPath`; cheap once cached */
+  getInfo(appPath: string): Promise<AppBundleInfo>;
+  /** Size on disk in bytes; slow for big bundles the first time, `undefined` if `du` fails */
+  getSize(appPath: string): Promise<number | undefined>;
+}
+
+/**
+ * Reads bundle metadata at most once per bundle version. Results are kept in
+ * memory and in `storage`; an entry is reused until the bundle or its Info.plist
+ * is modified, which every app update does. An entry checked once is trusted for
+ * the rest of the session, so scrolling never touches the disk twice.
+ */
+export function createAppMetadataCache({
+  reader = fsBundleReader,
+  runner = execFileRunner,
+  storage = localStorageBackend,
+}: AppMetadataOptions = {}): AppMetadataCache {
+  let entries: Promise<Record<string, CachedMetadata>> | undefined;
+  const verified = new Map<string, Promise<CachedMetadata>>();
+  const sizes = new Map<string, Promise<number | undefined>>();
+
+  function loadEntries() {
+    entries ??= (async () => {
+      try {
+        const parsed = JSON.parse((await storage.getItem(APP_METADATA_KEY)) ?? "{}");
+        return typeof parsed === "object" && parsed !== null ? parsed : {};
+      } catch {
+        return {};
+      }
+    })();
+    return entries;
+  }
+
+  async function saveEntry(appPath: string, entry: CachedMetadata) {
+    const all = await loadEntries();
+    all[appPath] = entry;
+    const stale = Object.entries(all)
+      .sort(([, a], [, b]) => b.cachedAt - a.cachedAt)
+      .slice(MAX_CACHED_APPS);
+    for (const [key] of stale) delete all[key];
+    await storage.setItem(APP_METADATA_KEY, JSON.stringify(all));
+  }
+
+  async function findInfoPlist(appPath: string): Promise<{ path: string; mtimeMs: number } | undefined> {
+    for (const relative of INFO_PLIST_PATHS) {
+      const path = join(appPath, relative);
+      try {
+        return { path, mtimeMs: (await reader.stat(path)).mtimeMs };
+      } catch {
+        // Try the next location.
+      }
+    }
+    return undefined;
+  }
+
+  async function load(appPath: string): Promise<CachedMetadata> {
+    const { mtimeMs: modifiedAt } = await reader.stat(appPath);
+    const plist = await findInfoPlist(appPath);
+    const stamp = `${modifiedAt}:${plist?.mtimeMs ?? ""}`;
+    const cached = (await loadEntries())[appPath];
+    if (cached?.stamp === stamp && cached.info) return cached;
+
+    let info: AppBundleInfo = { modifiedAt };
+    if (plist) {
+      try {
+        info = readBundleInfo(parsePlist(await reader.readFile(plist.path)), modifiedAt);
+      } catch (err) {
+        console.error(`Failed to read ${plist.path}`, err);
+      }
+    }
+    const entry: CachedMetadata = { stamp, info, cachedAt: Date.now() };
+    await saveEntry(appPath, entry);
+    return entry;
+  }
+
+  function verify(appPath: string): Promise<CachedMetadata> {
+    let pending = verified.get(appPath);
+    if (!pending) {
+      pending = load(appPath);
+      // A failed read is retried next time instead of being remembered.
+      pending.catch(() => verified.delete(appPath));
+      verified.set(appPath, pending);
+    }
+    return pending;
+  }
+
+  async function measure(appPath: string): Promise<number | undefined> {
+    const entry = await verify(appPath);
+    if (entry.sizeBytes !== undefined) return entry.sizeBytes;
+    try {
+      const sizeBytes = parseDiskUsage((await runner("du", ["-sk", appPath])).stdout);
+      if (sizeBytes !== undefined) {
+        entry.sizeBytes = sizeBytes;
+        await saveEntry(appPath, entry);
+      }
+      return sizeBytes;
+    } catch (err) {
+      console.error(`Failed to measure ${appPath}`, err);
+      return undefined;
+    }
+  }
+
+  return {
+    getInfo: async (appPath) => (await verify(appPath)).info,
+    getSize(appPath) {
+      let pending = sizes.get(appPath);
+      if (!pending) {
+        pending = measure(appPath);
+        pending.catch(() => sizes.delete(appPath));
+        sizes.set(appPath, pending);
+      }
+      return pending;
+    },
+  };
+}
+
+/** The cache every view of a command shares */
+export const appMetadataCache = createAppMetadataCache();
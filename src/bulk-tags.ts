@@ -0,0 +1,63 @@
+import { Application } from "@raycast/api";
+import { appKey } from "./helpers";
+import { matchSmartTags } from "./smart-tags";
+import { AppTags, BulkTagMode, TagDatabase } from "./types";
+
+/** Whether the app has the tag, by hand or through a smart rule it isn't excluded from */
+export function appHasTag(
+  app: Application,
+  tagId: string,
+  db: Pick<TagDatabase, "appTags" | "appTagExcludes" | "tagDefinitions">,
+): boolean {
+  const key = appKey(app);
+  if (db.appTags[key]?.includes(tagId)) return true;
+  const ruleMatch = matchSmartTags(app, db.tagDefinitions).some((match) => match.tagId === tagId);
+  return ruleMatch && !db.appTagExcludes[key]?.includes(tagId);
+}
+
+/** Splits the selection into apps the change would affect and apps it would leave as they are */
+export function planBulkTagChange(
+  apps: Application[],
+  tagId: string,
+  mode: BulkTagMode,
+  db: Pick<TagDatabase, "appTags" | "appTagExcludes" | "tagDefinitions">,
+): { changed: Application[]; unchanged: Application[] } {
+  const changed: Application[] = [];
+  const unchanged: Application[] = [];
+  for (const app of apps) {
+    const tagged = appHasTag(app, tagId, db);
+    if (mode === "add" ? !tagged : tagged) changed.push(app);
+    else unchanged.push(app);
+  }
+  return { changed, unchanged };
+}
+
+/**
+ * Adds or removes one tag for many apps. Removing a tag a smart rule still matches
+ * also records an exclude, so the tag is really gone.
+ */
+export function applyBulkTagChange(
+  db: TagDatabase,
+  apps: Application[],
+  tagId: string,
+  mode: BulkTagMode,
+): TagDatabase {
+  const appTags: AppTags = { ...db.appTags };
+  const appTagExcludes: AppTags = { ...db.appTagExcludes };
+
+  for (const app of apps) {
+    const key = appKey(app);
+    const current = appTags[key] ?? [];
+    const excluded = appTagExcludes[key] ?? [];
+    if (mode === "add") {
+      if (!current.includes(tagId)) appTags[key] = [...current, tagId];
+      if (excluded.includes(tagId)) appTagExcludes[key] = excluded.filter((id) => id !== tagId);
+    } else {
+      if (current.includes(tagId)) appTags[key] = current.filter((id) => id !== tagId);
+      const ruleMatch = matchSmartTags(app, db.tagDefinitions).some((match) => match.tagId === tagId);
+      if (ruleMatch && !excluded.includes(tagId)) appTagExcludes[key] = [...excluded, tagId];
+    }
+  }
+
+  return { ...db, appTags, appTagExcludes };
+}
@@ -0,0 +1,64 @@
+import { Action, ActionPanel, Application, Form, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { formatTermList, getAppDetails, parseTermList } from "../app-details";
+import { tagStore } from "../tag-store";
+import { AppDetails } from "../types";
+
+export function AppDetailsForm({ app, onSave }: { app: Application; onSave: (details: AppDetails) => Promise<void> }) {
+  const { pop } = useNavigation();
+  const [initial] = useState(() => getAppDetails(app, tagStore.snapshot()?.appDetails ?? {}));
+  const [displayName, setDisplayName] = useState(initial.displayName ?? "");
+  const [aliases, setAliases] = useState(formatTermList(initial.aliases));
+  const [keywords, setKeywords] = useState(formatTermList(initial.keywords));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  async function handle() {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    const aliasList = parseTermList(aliases);
+    const keywordList = parseTermList(keywords);
+    await onSave({
+      displayName: displayName.trim() || undefined,
+      aliases: aliasList.length > 0 ? aliasList : undefined,
+      keywords: keywordList.length > 0 ? keywordList : undefined,
+    });
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={`Details for ${app.name}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Details" onSubmit={handle} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="App" text={[app.name, app.bundleId].filter(Boolean).join("  ·  ")} />
+      <Form.TextField
+        id="displayName"
+        title="Display Name"
+        placeholder={app.name}
+        info="Shown instead of the app's own name; leave empty to keep it"
+        value={displayName}
+        onChange={setDisplayName}
+      />
+      <Form.TextField
+        id="aliases"
+        title="Aliases"
+        placeholder="e.g. ps, photo"
+        info="Comma-separated names the app should be found by, ranked like its name"
+        value={aliases}
+        onChange={setAliases}
+      />
+      <Form.TextField
+        id="keywords"
+        title="Keywords"
+        placeholder="e.g. design, raster, images"
+        info="Comma-separated search terms, ranked below the name and aliases"
+        value={keywords}
+        onChange={setKeywords}
+      />
+    </Form>
+  );
+}
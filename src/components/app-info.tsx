@@ -0,0 +1,73 @@
+import { Application, List } from "@raycast/api";
+import { formatAppCategory, formatBytes } from "../app-metadata";
+import { getTagColor, getTagPath } from "../tags";
+import { AppBundleInfo, TagDefinitions } from "../types";
+
+/** Side panel of a Browse Apps item; `metadata` is only loaded for the selected app */
+export function AppInfo({
+  app,
+  tagIds,
+  tagDefinitions,
+  lastLaunch,
+  metadata,
+}: {
+  app: Application;
+  /** In display order, smart tags included */
+  tagIds: string[];
+  tagDefinitions: TagDefinitions;
+  lastLaunch?: number;
+  metadata?: { info?: AppBundleInfo; sizeBytes?: number; isLoading: boolean };
+}) {
+  const info = metadata?.info;
+  const version = info?.version ?? info?.build;
+  const pending = metadata?.isLoading ? "Loading…" : "Unknown";
+
+  return (
+    <List.Item.Detail
+      isLoading={metadata?.isLoading}
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.Label title="Name" text={app.name} icon={{ fileIcon: app.path }} />
+          <List.Item.Detail.Metadata.Label title="Bundle ID" text={info?.bundleId ?? app.bundleId ?? "None"} />
+          <List.Item.Detail.Metadata.Label
+            title="Version"
+            text={version ? (info?.build && info.build !== version ? `${version} (${info.build})` : version) : pending}
+          />
+          <List.Item.Detail.Metadata.Label title="Path" text={app.path} />
+          <List.Item.Detail.Metadata.Label
+            title="Size on Disk"
+            text={metadata?.sizeBytes !== undefined ? formatBytes(metadata.sizeBytes) : pending}
+          />
+          <List.Item.Detail.Metadata.Label
+            title="Modified"
+            text={info ? new Date(info.modifiedAt).toLocaleString() : pending}
+          />
+          {info?.minimumSystemVersion && (
+            <List.Item.Detail.Metadata.Label title="Requires macOS" text={`${info.minimumSystemVersion} or later`} />
+          )}
+          {info?.category && (
+            <List.Item.Detail.Metadata.Label title="Category" text={formatAppCategory(info.category)} />
+          )}
+          <List.Item.Detail.Metadata.Separator />
+          {tagIds.length > 0 ? (
+            <List.Item.Detail.Metadata.TagList title="Tags">
+              {tagIds.map((tagId) => (
+                <List.Item.Detail.Metadata.TagList.Item
+                  key={tagId}
+                  text={getTagPath(tagId, tagDefinitions)}
+                  color={getTagColor(tagId, tagDefinitions)}
+                />
+              ))}
+            </List.Item.Detail.Metadata.TagList>
+          ) : (
+            <List.Item.Detail.Metadata.Label title="Tags" text="None" />
+          )}
+          {lastLaunch !== undefined && (
+            <List.Item.Detail.Metadata.Label title="Last Launched" text={new Date(lastLaunch).toLocaleString()} />
+          )}
+          {info?.copyright && <List.Item.Detail.Metadata.Label title="Copyright" text={info.copyright} />}
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+}
@@ -0,0 +1,226 @@
+import {
+  Action,
+  ActionPanel,
+  Application,
+  Color,
+  Detail,
+  getApplications,
+  Icon,
+  List,
+  useNavigation,
+} from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useEffect, useMemo, useState } from "react";
+import { appHasTag, planBulkTagChange } from "../bulk-tags";
+import { useTagState } from "../hooks/use-tag-state";
+import { flattenTagTree, getTagColor, getTagIcon, getTagPath } from "../tags";
+import { AppTags, BulkTagMode, TagDefinitions } from "../types";
+
+export function BulkTagEditor({
+  apps,
+  initialTagId,
+  initialSelection = [],
+  onApply,
+}: {
+  /** Loaded with `getApplications()` when not given */
+  apps?: Application[];
+  initialTagId?: string;
+  /** App paths selected up front, e.g. the current search results */
+  initialSelection?: string[];
+  onApply: (tagId: string, mode: BulkTagMode, apps: Application[]) => Promise<void>;
+}) {
+  const [allApps, setAllApps] = useState<Application[]>(apps ?? []);
+  const {
+    database: { appTags: tags, appTagExcludes: tagExcludes, tagDefinitions, tagOrder },
+    isLoading: isLoadingTags,
+  } = useTagState();
+  const [tagId, setTagId] = useState(initialTagId ?? "");
+  const [mode, setMode] = useState<BulkTagMode>("add");
+  const [selected, setSelected] = useState<string[]>(initialSelection);
+  const [searchText, setSearchText] = useState("");
+  const [isLoadingApps, setIsLoadingApps] = useState(!apps);
+
+  useEffect(() => {
+    if (apps) return;
+    (async () => {
+      try {
+        const installedApps = await getApplications();
+        setAllApps(installedApps.sort((a, b) => a.name.localeCompare(b.name)));
+      } catch (err) {
+        await showFailureToast(err, { title: "Could not load apps" });
+      } finally {
+        setIsLoadingApps(false);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!tagDefinitions[tagId] && tagOrder.length > 0) setTagId(tagOrder[0]);
+  }, [tagDefinitions, tagOrder]);
+
+  const visibleApps = useMemo(() => {
+    const q = searchText.trim().toLowerCase();
+    return q ? allApps.filter((app) => app.name.toLowerCase().includes(q)) : allApps;
+  }, [allApps, searchText]);
+
+  const selectedApps = allApps.filter((app) => selected.includes(app.path));
+  const tagName = tagDefinitions[tagId] ? getTagPath(tagId, tagDefinitions) : "";
+
+  function toggle(app: Application) {
+    setSelected((current) =>
+      current.includes(app.path) ? current.filter((path) => path !== app.path) : [...current, app.path],
+    );
+  }
+
+  function selectAllVisible() {
+    setSelected((current) => [...new Set([...current, ...visibleApps.map((app) => app.path)])]);
+  }
+
+  function deselectAllVisible() {
+    const visible = visibleApps.map((app) => app.path);
+    setSelected((current) => current.filter((path) => !visible.includes(path)));
+  }
+
+  return (
+    <List
+      isLoading={isLoadingApps || isLoadingTags}
+      navigationTitle={tagName ? `${mode === "add" ? "Add" : "Remove"} ${tagName} (${selected.length} selected)` : ""}
+      searchBarPlaceholder="Filter apps..."
+      filtering={false}
+      onSearchTextChange={setSearchText}
+      searchBarAccessory={
+        <List.Dropdown tooltip="Tag" value={tagId} onChange={setTagId}>
+          {flattenTagTree(tagDefinitions, tagOrder).map(({ def, path }) => (
+            <List.Dropdown.Item key={def.id} value={def.id} title={path} icon={getTagIcon(def.id, tagDefinitions)} />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {visibleApps.map((app) => {
+        const isSelected = selected.includes(app.path);
+        return (
+          <List.Item
+            key={app.path}
+            title={app.name}
+            icon={{ fileIcon: app.path }}
+            accessories={[
+              ...(tagId && appHasTag(app, tagId, { appTags: tags, appTagExcludes: tagExcludes, tagDefinitions })
+                ? [{ tag: { value: tagDefinitions[tagId]?.name ?? "", color: getTagColor(tagId, tagDefinitions) } }]
+                : []),
+              {
+                icon: isSelected ? { source: Icon.CheckCircle, tintColor: Color.Green } : Icon.Circle,
+                tooltip: isSelected ? "Selected" : "Not selected",
+              },
+            ]}
+            actions={
+              <ActionPanel>
+                <Action
+                  title={isSelected ? "Deselect" : "Select"}
+                  icon={Icon.CheckCircle}
+                  onAction={() => toggle(app)}
+                />
+                {tagId && (
+                  <Action.Push
+                    title="Preview Changes"
+                    icon={Icon.Eye}
+                    shortcut={{ modifiers: ["cmd"], key: "return" }}
+                    target={
+                      <BulkTagPreview
+                        apps={selectedApps}
+                        tagId={tagId}
+                        mode={mode}
+                        tags={tags}
+                        tagExcludes={tagExcludes}
+                        tagDefinitions={tagDefinitions}
+                        onApply={onApply}
+                      />
+                    }
+                  />
+                )}
+                <ActionPanel.Section>
+                  <Action
+                    title="Select All Visible"
+                    icon={Icon.CheckList}
+                    shortcut={{ modifiers: ["cmd"], key: "a" }}
+                    onAction={selectAllVisible}
+                  />
+                  <Action
+                    title="Deselect All Visible"
+                    icon={Icon.Circle}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+                    onAction={deselectAllVisible}
+                  />
+                  <Action
+                    title={mode === "add" ? "Switch to Remove Tag" : "Switch to Add Tag"}
+                    icon={mode === "add" ? Icon.Minus : Icon.Plus}
+                    shortcut={{ modifiers: ["cmd"], key: "m" }}
+                    onAction={() => setMode(mode === "add" ? "remove" : "add")}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
+
+function BulkTagPreview({
+  apps,
+  tagId,
+  mode,
+  tags,
+  tagExcludes,
+  tagDefinitions,
+  onApply,
+}: {
+  apps: Application[];
+  tagId: string;
+  mode: BulkTagMode;
+  tags: AppTags;
+  tagExcludes: AppTags;
+  tagDefinitions: TagDefinitions;
+  onApply: (tagId: string, mode: BulkTagMode, apps: Application[]) => Promise<void>;
+}) {
+  const { pop } = useNavigation();
+  const tagName = getTagPath(tagId, tagDefinitions);
+  const { changed, unchanged } = planBulkTagChange(apps, tagId, mode, {
+    appTags: tags,
+    appTagExcludes: tagExcludes,
+    tagDefinitions,
+  });
+
+  const list = (items: Application[]) => items.map((app) => `- ${app.name}`).join("\n") || "_None_";
+  const markdown = [
+    `# ${mode === "add" ? "Add" : "Remove"} "${tagName}"`,
+    `## ${mode === "add" ? "Will be tagged" : "Will be untagged"} (${changed.length})`,
+    list(changed),
+    `## ${mode === "add" ? "Already tagged" : "Not tagged"}, unchanged (${unchanged.length})`,
+    list(unchanged),
+  ].join("\n\n");
+
+  async function apply() {
+    await onApply(tagId, mode, changed);
+    pop();
+    pop();
+  }
+
+  return (
+    <Detail
+      navigationTitle="Preview Changes"
+      markdown={markdown}
+      actions={
+        <ActionPanel>
+          {changed.length > 0 && (
+            <Action
+              title={`Apply to ${changed.length} App(s)`}
+              icon={mode === "add" ? Icon.Plus : Icon.Minus}
+              onAction={apply}
+            />
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -1,27 +1,50 @@
-import { Action, ActionPanel, Form, showToast, Toast, useNavigation } from "@raycast/api";
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
 import { useState } from "react";
 import { isValidHexColor, randomColor } from "../helpers";
+import { RULE_SYNTAX_HELP } from "../smart-tags";
+import { DEFAULT_TAG_COLOR, flattenTagTree, getTagColor, getTagIcon } from "../tags";
+import { TagDefinitions, TagInput } from "../types";
+import { toTagInput, validateTagInput } from "./tag-form";
+import { initialTagMetadata, TagMetadataFields } from "./tag-metadata-fields";
 
-export function CreateTagForm({ onCreate }: { onCreate: (name: string, color: string) => void }) {
+export function CreateTagForm({
+  onCreate,
+  tagDefinitions,
+  tagOrder,
+  defaultParentId,
+}: {
+  onCreate: (input: TagInput) => void;
+  tagDefinitions: TagDefinitions;
+  tagOrder: string[];
+  defaultParentId?: string;
+}) {
   const { pop } = useNavigation();
   const [name, setName] = useState("");
+  const [parentId, setParentId] = useState(defaultParentId ?? "");
+  const [inheritColor, setInheritColor] = useState(!!defaultParentId);
   const [color, setColor] = useState(randomColor());
+  const [rulesText, setRulesText] = useState("");
+  const [metadata, setMetadata] = useState(initialTagMetadata());
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const previewColor =
+    parentId && inheritColor
+      ? getTagColor(parentId, tagDefinitions)
+      : isValidHexColor(color)
+        ? color
+        : DEFAULT_TAG_COLOR;
+
   async function handle() {
     if (isSubmitting) return;
     setIsSubmitting(true);
-    if (!name) {
-      await showToast(Toast.Style.Failure, "Tag name cannot be empty");
-      setIsSubmitting(false);
-      return;
-    }
-    if (!isValidHexColor(color)) {
-      await showToast(Toast.Style.Failure, "Invalid HEX color", "Use #RRGGBB like #FF0000");
+    const values = { name, parentId, inheritColor, color, rulesText, metadata };
+    const error = validateTagInput(values, tagDefinitions);
+    if (error) {
+      await showToast(Toast.Style.Failure, error.title, error.message);
       setIsSubmitting(false);
       return;
     }
-    await onCreate(name.trim(), color);
+    await onCreate(toTagInput(values));
     pop();
   }
 
@@ -35,7 +58,28 @@ export function CreateTagForm({ onCreate }: { onCreate: (name: string, color: st
       }
     >
       <Form.TextField id="name" title="Tag Name" placeholder="e.g. Work" value={name} onChange={setName} />
-      <Form.TextField id="color" title="Color (HEX)" value={color} onChange={setColor} />
+      <Form.Dropdown id="parentId" title="Parent" value={parentId} onChange={setParentId}>
+        <Form.Dropdown.Item value="" title="None" icon={Icon.Minus} />
+        {flattenTagTree(tagDefinitions, tagOrder).map(({ def, path }) => (
+          <Form.Dropdown.Item key={def.id} value={def.id} title={path} icon={getTagIcon(def.id, tagDefinitions)} />
+        ))}
+      </Form.Dropdown>
+      {parentId && (
+        <Form.Checkbox id="inheritColor" label="Use parent color" value={inheritColor} onChange={setInheritColor} />
+      )}
+      {(!parentId || !inheritColor) && (
+        <Form.TextField id="color" title="Color (HEX)" value={color} onChange={setColor} />
+      )}
+      <Form.Separator />
+      <Form.TextArea
+        id="rules"
+        title="Smart Tag Rules"
+        placeholder="bundleId: com.jetbrains.*"
+        info={RULE_SYNTAX_HELP}
+        value={rulesText}
+        onChange={setRulesText}
+      />
+      <TagMetadataFields values={metadata} onChange={setMetadata} name={name} color={previewColor} />
     </Form>
   );
 }
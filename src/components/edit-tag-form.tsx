@@ -1,34 +1,54 @@
-import { Action, ActionPanel, Form, showToast, Toast, useNavigation } from "@raycast/api";
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
 import { useState } from "react";
 import { isValidHexColor } from "../helpers";
-import { TagDefinition } from "../types";
+import { formatRules, RULE_SYNTAX_HELP } from "../smart-tags";
+import { canBeParent, DEFAULT_TAG_COLOR, flattenTagTree, getTagColor, getTagIcon } from "../tags";
+import { TagDefinition, TagDefinitions, TagInput } from "../types";
+import { toTagInput, validateTagInput } from "./tag-form";
+import { initialTagMetadata, TagMetadataFields } from "./tag-metadata-fields";
 
 export function EditTagForm({
   tagDef,
   onEdit,
+  tagDefinitions,
+  tagOrder,
 }: {
   tagDef: TagDefinition;
-  onEdit: (id: string, newName: string, newColor: string) => void;
+  onEdit: (id: string, input: TagInput) => void;
+  tagDefinitions: TagDefinitions;
+  tagOrder: string[];
 }) {
   const { pop } = useNavigation();
   const [name, setName] = useState(tagDef.name);
-  const [color, setColor] = useState(tagDef.color);
+  const [parentId, setParentId] = useState(tagDef.parentId ?? "");
+  const [inheritColor, setInheritColor] = useState(!!tagDef.parentId && !tagDef.color);
+  const [color, setColor] = useState(tagDef.color ?? getTagColor(tagDef.id, tagDefinitions));
+  const [rulesText, setRulesText] = useState(formatRules(tagDef.rules));
+  const [metadata, setMetadata] = useState(initialTagMetadata(tagDef));
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const parentOptions = flattenTagTree(tagDefinitions, tagOrder).filter(({ def }) =>
+    canBeParent(def.id, tagDef.id, tagDefinitions),
+  );
+
+  const previewColor =
+    parentId && inheritColor
+      ? getTagColor(parentId, tagDefinitions)
+      : isValidHexColor(color)
+        ? color
+        : DEFAULT_TAG_COLOR;
+
   async function handle() {
     if (isSubmitting) return;
     setIsSubmitting(true);
-    if (!name) {
-      await showToast(Toast.Style.Failure, "Tag name cannot be empty");
-      setIsSubmitting(false);
-      return;
-    }
-    if (!isValidHexColor(color)) {
-      await showToast(Toast.Style.Failure, "Invalid HEX color", "Use #RRGGBB like #00FF00");
+    const values = { name, parentId, inheritColor, color, rulesText, metadata };
+    const error = validateTagInput(values, tagDefinitions, tagDef.id);
+    if (error) {
+      await showToast(Toast.Style.Failure, error.title, error.message);
       setIsSubmitting(false);
       return;
     }
-    await onEdit(tagDef.id, name.trim(), color);
+    await onEdit(tagDef.id, toTagInput(values));
     pop();
   }
 
@@ -42,7 +62,28 @@ export function EditTagForm({
       }
     >
       <Form.TextField id="name" title="Tag Name" value={name} onChange={setName} />
-      <Form.TextField id="color" title="Color (HEX)" value={color} onChange={setColor} />
+      <Form.Dropdown id="parentId" title="Parent" value={parentId} onChange={setParentId}>
+        <Form.Dropdown.Item value="" title="None" icon={Icon.Minus} />
+        {parentOptions.map(({ def, path }) => (
+          <Form.Dropdown.Item key={def.id} value={def.id} title={path} icon={getTagIcon(def.id, tagDefinitions)} />
+        ))}
+      </Form.Dropdown>
+      {parentId && (
+        <Form.Checkbox id="inheritColor" label="Use parent color" value={inheritColor} onChange={setInheritColor} />
+      )}
+      {(!parentId || !inheritColor) && (
+        <Form.TextField id="color" title="Color (HEX)" value={color} onChange={setColor} />
+      )}
+      <Form.Separator />
+      <Form.TextArea
+        id="rules"
+        title="Smart Tag Rules"
+        placeholder="bundleId: com.jetbrains.*"
+        info={RULE_SYNTAX_HELP}
+        value={rulesText}
+        onChange={setRulesText}
+      />
+      <TagMetadataFields values={metadata} onChange={setMetadata} name={name} color={previewColor} />
     </Form>
   );
 }
@@ -0,0 +1,122 @@
+import { Action, ActionPanel, Application, Form, Icon, List, showToast, Toast, useNavigation } from "@raycast/api";
+import { useMemo, useState } from "react";
+import { getAppDisplayName } from "../app-details";
+import { getHiddenReason } from "../hidden-apps";
+import { useTagState } from "../hooks/use-tag-state";
+import { describeRule, formatRules, parseRules, RULE_SYNTAX_HELP } from "../smart-tags";
+import { TagRule } from "../types";
+
+export function HiddenApps({
+  apps,
+  onRestore,
+  onEditRules,
+}: {
+  apps: Application[];
+  onRestore: (apps: Application[]) => Promise<void>;
+  onEditRules: (rules: TagRule[]) => Promise<void>;
+}) {
+  const { database, isLoading } = useTagState();
+  const { appDetails, ignoreRules } = database;
+
+  const { manual, ignored } = useMemo(() => {
+    const hidden = apps.map((app) => ({ app, reason: getHiddenReason(app, database) }));
+    return {
+      manual: hidden.filter(({ reason }) => reason?.type === "manual").map(({ app }) => app),
+      ignored: hidden.flatMap(({ app, reason }) => (reason?.type === "rule" ? [{ app, rule: reason.rule }] : [])),
+    };
+  }, [apps, database]);
+
+  const editRulesAction = (
+    <Action.Push
+      title="Edit Ignore Rules"
+      icon={Icon.Filter}
+      shortcut={{ modifiers: ["cmd"], key: "i" }}
+      target={<IgnoreRulesForm rules={ignoreRules} onSave={onEditRules} />}
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`Hidden Apps (${manual.length + ignored.length})`}
+      searchBarPlaceholder="Search hidden apps..."
+    >
+      <List.EmptyView
+        icon={Icon.Eye}
+        title="No Hidden Apps"
+        description="Hide apps from Browse Apps, or add ignore rules to hide helpers and updaters"
+        actions={<ActionPanel>{editRulesAction}</ActionPanel>}
+      />
+      <List.Section title="Hidden by Hand" subtitle={`${manual.length}`}>
+        {manual.map((app) => (
+          <List.Item
+            key={app.path}
+            title={getAppDisplayName(app, appDetails)}
+            subtitle={app.bundleId}
+            icon={{ fileIcon: app.path }}
+            actions={
+              <ActionPanel>
+                <Action title="Restore App" icon={Icon.Eye} onAction={() => onRestore([app])} />
+                <Action
+                  title="Restore All Apps"
+                  icon={Icon.Eye}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                  onAction={() => onRestore(manual)}
+                />
+                {editRulesAction}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+      <List.Section title="Ignored by Rule" subtitle={`${ignored.length}`}>
+        {ignored.map(({ app, rule }) => (
+          <List.Item
+            key={app.path}
+            title={getAppDisplayName(app, appDetails)}
+            subtitle={app.bundleId}
+            icon={{ fileIcon: app.path }}
+            accessories={[{ icon: Icon.Filter, tooltip: describeRule(rule) }]}
+            actions={<ActionPanel>{editRulesAction}</ActionPanel>}
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
+
+function IgnoreRulesForm({ rules, onSave }: { rules: TagRule[]; onSave: (rules: TagRule[]) => Promise<void> }) {
+  const { pop } = useNavigation();
+  const [rulesText, setRulesText] = useState(formatRules(rules));
+
+  async function handle() {
+    const { rules: parsed, errors } = parseRules(rulesText);
+    if (errors.length > 0) {
+      await showToast(Toast.Style.Failure, "Invalid ignore rule", errors[0]);
+      return;
+    }
+    await onSave(parsed);
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle="Ignore Rules"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Rules" onSubmit={handle} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Apps matching any rule are hidden from Browse Apps, the menu bar and Launch Tag." />
+      <Form.TextArea
+        id="rules"
+        title="Ignore Rules"
+        placeholder={"path: /Library/Application Support\nbundleId: com.apple.*Helper*"}
+        info={RULE_SYNTAX_HELP}
+        value={rulesText}
+        onChange={setRulesText}
+      />
+    </Form>
+  );
+}
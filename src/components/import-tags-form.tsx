@@ -0,0 +1,135 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  confirmAlert,
+  Detail,
+  Form,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { readFile } from "fs/promises";
+import { useState } from "react";
+import { useTagState } from "../hooks/use-tag-state";
+import { applyImport, describeImportSummary, parseImport, summarizeImport } from "../import-export";
+import { ImportMode, TagImport } from "../types";
+
+export function ImportTagsForm({ onImport }: { onImport: (data: TagImport, mode: ImportMode) => Promise<void> }) {
+  const { push, pop } = useNavigation();
+  const [files, setFiles] = useState<string[]>([]);
+  const [text, setText] = useState("");
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [dryRun, setDryRun] = useState(true);
+
+  async function handle() {
+    let content = text;
+    if (files.length > 0) {
+      try {
+        content = await readFile(files[0], "utf8");
+      } catch {
+        await showToast(Toast.Style.Failure, "Could not read file", files[0]);
+        return;
+      }
+    }
+    const { data, errors } = parseImport(content);
+    if (!data) {
+      const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : "";
+      await showToast(Toast.Style.Failure, "Invalid import", `${errors[0]}${more}`);
+      return;
+    }
+
+    if (dryRun) {
+      push(<ImportPreview data={data} mode={mode} onImport={onImport} />);
+      return;
+    }
+    if (mode === "replace") {
+      const confirmed = await confirmAlert({
+        title: "Replace All Tags",
+        message: "Every tag and tag assignment not in the import will be removed.",
+        icon: Icon.Download,
+        primaryAction: { title: "Replace", style: Alert.ActionStyle.Destructive },
+      });
+      if (!confirmed) return;
+    }
+    await onImport(data, mode);
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle="Import Tags"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={dryRun ? "Preview Import" : "Import Tags"}
+            icon={dryRun ? Icon.Eye : Icon.Download}
+            onSubmit={handle}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Import a JSON or CSV file exported from Manage Tags. Tags are matched by name, ignoring case." />
+      <Form.FilePicker id="file" title="File" allowMultipleSelection={false} value={files} onChange={setFiles} />
+      <Form.TextArea
+        id="text"
+        title="Or Paste"
+        placeholder={"app,tags\ncom.figma.Desktop,Work/Design; Favorites"}
+        info="Used when no file is chosen"
+        value={text}
+        onChange={setText}
+      />
+      <Form.Dropdown id="mode" title="Mode" value={mode} onChange={(value) => setMode(value as ImportMode)}>
+        <Form.Dropdown.Item value="merge" title="Merge with Current Tags" icon={Icon.Plus} />
+        <Form.Dropdown.Item value="replace" title="Replace All Tags" icon={Icon.Trash} />
+      </Form.Dropdown>
+      <Form.Checkbox id="dryRun" label="Dry run: show what would change first" value={dryRun} onChange={setDryRun} />
+    </Form>
+  );
+}
+
+function ImportPreview({
+  data,
+  mode,
+  onImport,
+}: {
+  data: TagImport;
+  mode: ImportMode;
+  onImport: (data: TagImport, mode: ImportMode) => Promise<void>;
+}) {
+  const { pop } = useNavigation();
+  const { database, isLoading } = useTagState();
+  const summary = summarizeImport(database, applyImport(database, data, mode));
+
+  const list = (items: string[]) => items.map((item) => `- ${item}`).join("\n") || "_None_";
+  const markdown = [
+    `# ${mode === "merge" ? "Merge" : "Replace"} Tags from ${data.format.toUpperCase()}`,
+    describeImportSummary(summary),
+    `## New Tags (${summary.createdTags.length})`,
+    list(summary.createdTags),
+    `## Updated Tags (${summary.updatedTags.length})`,
+    list(summary.updatedTags),
+    `## Removed Tags (${summary.removedTags.length})`,
+    list(summary.removedTags),
+    `## Apps (${summary.changedApps})`,
+    `${summary.addedAssignments} tag(s) added, ${summary.removedAssignments} removed`,
+  ].join("\n\n");
+
+  async function apply() {
+    await onImport(data, mode);
+    pop();
+    pop();
+  }
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle="Preview Import"
+      markdown={markdown}
+      actions={
+        <ActionPanel>{!isLoading && <Action title="Apply Import" icon={Icon.Download} onAction={apply} />}</ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,136 @@
+import { Action, ActionPanel, Alert, Application, confirmAlert, Icon, List, useNavigation } from "@raycast/api";
+import { useMemo } from "react";
+import { useTagState } from "../hooks/use-tag-state";
+import { findOrphanedEntries, guessAppName, OrphanedEntry, suggestRelink } from "../orphans";
+import { getTagColor, getTagPath } from "../tags";
+
+export function OrphanedTags({
+  apps,
+  onRelink,
+  onDelete,
+}: {
+  apps: Application[];
+  onRelink: (fromKey: string, toApp: Application) => Promise<void>;
+  onDelete: (keys: string[]) => Promise<void>;
+}) {
+  const { database, isLoading } = useTagState();
+  const { tagDefinitions } = database;
+  const entries = useMemo(() => findOrphanedEntries(apps, database), [apps, database]);
+
+  async function handleDelete(keys: string[]) {
+    const confirmed = await confirmAlert({
+      title: keys.length === 1 ? "Delete Orphaned Entry" : "Delete All Orphaned Entries",
+      message:
+        keys.length === 1
+          ? `Remove the stored tags for "${keys[0]}"?`
+          : `Remove the stored tags for ${keys.length} apps that are no longer installed?`,
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await onDelete(keys);
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`Orphaned Tags (${entries.length})`}
+      searchBarPlaceholder="Search stored entries..."
+    >
+      <List.EmptyView icon={Icon.CheckCircle} title="No Orphaned Tags" description="Every stored entry has an app" />
+      {entries.map((entry) => {
+        const suggestion = suggestRelink(entry.key, apps);
+        return (
+          <List.Item
+            key={entry.key}
+            title={guessAppName(entry.key)}
+            subtitle={entry.key}
+            icon={Icon.QuestionMarkCircle}
+            keywords={entry.tagIds.map((id) => tagDefinitions[id]?.name ?? "")}
+            accessories={[
+              ...entry.tagIds
+                .filter((id) => tagDefinitions[id])
+                .map((id) => ({
+                  tag: { value: tagDefinitions[id].name, color: getTagColor(id, tagDefinitions) },
+                  tooltip: getTagPath(id, tagDefinitions),
+                })),
+              ...(entry.pinned ? [{ icon: Icon.Pin, tooltip: "In Favorites" }] : []),
+              ...(entry.hidden ? [{ icon: Icon.EyeDisabled, tooltip: "Hidden" }] : []),
+              ...(suggestion ? [{ icon: Icon.Link, tooltip: `Suggested: ${suggestion.name}` }] : []),
+            ]}
+            actions={
+              <ActionPanel>
+                {suggestion && (
+                  <Action
+                    title={`Re-Link to ${suggestion.name}`}
+                    icon={Icon.Link}
+                    onAction={() => onRelink(entry.key, suggestion)}
+                  />
+                )}
+                <Action.Push
+                  title="Re-Link to App…"
+                  icon={Icon.MagnifyingGlass}
+                  shortcut={{ modifiers: ["cmd"], key: "l" }}
+                  target={<RelinkPicker apps={apps} entry={entry} onRelink={onRelink} />}
+                />
+                <ActionPanel.Section>
+                  <Action
+                    title="Delete Entry"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => handleDelete([entry.key])}
+                  />
+                  <Action
+                    title="Delete All Orphaned Entries"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                    onAction={() => handleDelete(entries.map((e) => e.key))}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
+
+function RelinkPicker({
+  apps,
+  entry,
+  onRelink,
+}: {
+  apps: Application[];
+  entry: OrphanedEntry;
+  onRelink: (fromKey: string, toApp: Application) => Promise<void>;
+}) {
+  const { pop } = useNavigation();
+
+  return (
+    <List navigationTitle={`Re-Link ${guessAppName(entry.key)}`} searchBarPlaceholder="Search installed apps...">
+      {apps.map((app) => (
+        <List.Item
+          key={app.path}
+          title={app.name}
+          subtitle={app.bundleId}
+          icon={{ fileIcon: app.path }}
+          actions={
+            <ActionPanel>
+              <Action
+                title="Re-Link Here"
+                icon={Icon.Link}
+                onAction={async () => {
+                  await onRelink(entry.key, app);
+                  pop();
+                }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
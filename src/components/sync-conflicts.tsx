@@ -0,0 +1,103 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { loadSyncConflicts } from "../file-sync";
+import { useTagState } from "../hooks/use-tag-state";
+import { guessAppName } from "../orphans";
+import { SyncConflict, SyncRecordPart } from "../types";
+
+const PART_LABELS: Record<SyncRecordPart, string> = {
+  tagDefinitions: "Tag",
+  appTags: "Tags of",
+  appTagExcludes: "Smart tag exclusions of",
+  appDetails: "Details of",
+};
+
+export function describeConflict(conflict: SyncConflict): string {
+  const tagName = (value: unknown) =>
+    typeof value === "object" && value !== null && "name" in value ? String(value.name) : undefined;
+  const subject =
+    conflict.part === "tagDefinitions"
+      ? (tagName(conflict.mine) ?? tagName(conflict.theirs) ?? conflict.key)
+      : guessAppName(conflict.key);
+  return `${PART_LABELS[conflict.part]} ${subject}`;
+}
+
+function formatValue(value: unknown): string {
+  return value === null ? "_Deleted_" : `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``;
+}
+
+export function SyncConflicts({
+  onResolve,
+}: {
+  onResolve: (conflict: SyncConflict, keep: "mine" | "theirs") => Promise<void>;
+}) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setConflicts(await loadSyncConflicts());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // A sync that runs while this is open can add new conflicts.
+  useTagState({ onChange: reload });
+
+  async function resolve(items: SyncConflict[], keep: "mine" | "theirs") {
+    for (const conflict of items) await onResolve(conflict, keep);
+    await reload();
+  }
+
+  return (
+    <List isLoading={isLoading} isShowingDetail={conflicts.length > 0} navigationTitle="Sync Conflicts">
+      <List.EmptyView
+        icon={Icon.CheckCircle}
+        title="No Sync Conflicts"
+        description="This machine and the sync file agree"
+      />
+      {conflicts.map((conflict) => (
+        <List.Item
+          key={`${conflict.part}:${conflict.key}`}
+          title={describeConflict(conflict)}
+          icon={Icon.ExclamationMark}
+          detail={
+            <List.Item.Detail
+              markdown={`### This Mac\n${formatValue(conflict.mine)}\n\n### Sync File (in use now)\n${formatValue(conflict.theirs)}`}
+            />
+          }
+          actions={
+            <ActionPanel>
+              <Action
+                title="Keep This Mac's Version"
+                icon={Icon.Monitor}
+                onAction={() => resolve([conflict], "mine")}
+              />
+              <Action
+                title="Keep Sync File's Version"
+                icon={Icon.Document}
+                onAction={() => resolve([conflict], "theirs")}
+              />
+              <ActionPanel.Section>
+                <Action
+                  title="Keep This Mac's Version for All"
+                  icon={Icon.Monitor}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+                  onAction={() => resolve(conflicts, "mine")}
+                />
+                <Action
+                  title="Keep Sync File's Version for All"
+                  icon={Icon.Document}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+                  onAction={() => resolve(conflicts, "theirs")}
+                />
+              </ActionPanel.Section>
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
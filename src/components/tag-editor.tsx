@@ -1,19 +1,11 @@
-import {
-  Action,
-  ActionPanel,
-  Application,
-  Form,
-  Icon,
-  List,
-  LocalStorage,
-  showToast,
-  Toast,
-  useNavigation,
-} from "@raycast/api";
-import { useCallback, useEffect, useState } from "react";
-import { TAG_DEFINITIONS_KEY, TAG_ORDER_KEY } from "../constants";
-import { TagEvents } from "../helpers";
-import { TagDefinitions } from "../types";
+import { Action, ActionPanel, Application, Form, Icon, List, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { appKey } from "../helpers";
+import { useTagState } from "../hooks/use-tag-state";
+import { describeRule, matchSmartTags } from "../smart-tags";
+import { tagStore } from "../tag-store";
+import { flattenTagTree, getTagColor, getTagIcon, getTagPath } from "../tags";
+import { BulkTagMode, ChildTagStrategy, ImportMode, TagImport, TagInput } from "../types";
 import { TagsManager } from "./tags-manager";
 
 export function TagEditor({
@@ -22,130 +14,58 @@ export function TagEditor({
   onCreateGlobal,
   onEditGlobal,
   onDeleteGlobal,
-  tagOrder,
+  onBulkAssignGlobal,
+  onReorderGlobal,
+  onMergeGlobal,
+  onDuplicateGlobal,
+  onImportGlobal,
 }: {
   app: Application;
-  onSave: (tags: string[]) => void;
-  onCreateGlobal: (name: string, color: string) => void;
-  onEditGlobal: (id: string, newName: string, newColor: string) => void;
-  onDeleteGlobal: (id: string) => void;
-  tagOrder: string[];
+  onSave: (tags: string[], excludes: string[]) => Promise<void>;
+  onCreateGlobal: (input: TagInput) => void;
+  onEditGlobal: (id: string, input: TagInput) => void;
+  onDeleteGlobal: (id: string, children: ChildTagStrategy) => void;
+  onBulkAssignGlobal: (tagId: string, mode: BulkTagMode, apps: Application[]) => Promise<void>;
+  onReorderGlobal: (order: string[]) => Promise<void>;
+  onMergeGlobal: (sourceId: string, targetId: string) => Promise<void>;
+  onDuplicateGlobal: (id: string) => Promise<void>;
+  onImportGlobal: (data: TagImport, mode: ImportMode) => Promise<void>;
 }) {
   const { pop } = useNavigation();
-  const [tagDefinitions, setTagDefinitions] = useState<TagDefinitions>({});
-  const [availableTagIds, setAvailableTagIds] = useState<string[]>(tagOrder);
-  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const key = appKey(app);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>(tagStore.snapshot()?.appTags[key] ?? []);
+  const [excludedTagIds, setExcludedTagIds] = useState<string[]>(tagStore.snapshot()?.appTagExcludes[key] ?? []);
   const [formVersion, setFormVersion] = useState(0);
-  const [isLoading, setIsLoading] = useState(true);
 
-  const loadFromStorage = useCallback(async () => {
-    const stored = await LocalStorage.allItems();
-    let defs: TagDefinitions = {};
-    if (stored[TAG_DEFINITIONS_KEY]) {
-      try {
-        defs = JSON.parse(stored[TAG_DEFINITIONS_KEY] as string);
-      } catch {
-        defs = {};
-      }
-    }
-
-    let order: string[] = tagOrder;
-    if (stored[TAG_ORDER_KEY]) {
-      try {
-        order = JSON.parse(stored[TAG_ORDER_KEY] as string);
-      } catch {
-        order = tagOrder;
-      }
-    }
-
-    setTagDefinitions(defs);
-    setAvailableTagIds(order);
-
-    const raw = stored[app.bundleId ?? app.path];
-    if (raw) {
-      try {
-        const parsed = JSON.parse(raw as string);
-        if (Array.isArray(parsed)) setSelectedTagIds(parsed);
-      } catch {
-        /* ignore */
-      }
-    }
-
-    setIsLoading(false);
-  }, [app.bundleId, app.path, tagOrder]);
-
-  // ✅ Initial load + listener for external changes
-  useEffect(() => {
-    loadFromStorage();
-
-    const handler = async () => {
-      await loadFromStorage();
-      setFormVersion((v) => v + 1);
-    };
-
-    TagEvents.on("tagsUpdated", handler);
-
-    // ✅ Proper cleanup — return a function that *calls* off(), not returns it
-    return () => {
-      TagEvents.off("tagsUpdated", handler);
-    };
-  }, [loadFromStorage]);
-
-  useEffect(() => {
-    const onBackReload = async () => {
-      console.log("♻️ Reloading tags after returning from ManageTags");
-      await loadFromStorage();
-      setFormVersion((v) => v + 1);
-    };
-
-    TagEvents.on("tagsReload", onBackReload);
-
-    // ✅ Return a function that calls .off() but doesn't return anything
-    return () => {
-      TagEvents.off("tagsReload", onBackReload);
-    };
-  }, [loadFromStorage]);
+  // Only reset what changed, so tags picked but not saved yet survive edits to the tag list.
+  const {
+    database: { tagDefinitions, tagOrder: availableTagIds },
+    isLoading,
+  } = useTagState({
+    onChange: ({ database, changed }) => {
+      if (changed.includes("appTags")) setSelectedTagIds(database.appTags[key] ?? []);
+      if (changed.includes("appTagExcludes")) setExcludedTagIds(database.appTagExcludes[key] ?? []);
+      if (changed.includes("tagDefinitions") || changed.includes("tagOrder")) setFormVersion((v) => v + 1);
+    },
+  });
 
   async function handleSubmit(values: Record<string, string[]>) {
     const tags = values["tags"] ?? [];
-    await onSave(tags);
-    await showToast({ style: Toast.Style.Success, title: "Tags saved" });
+    const excludes = values["excludes"] ?? [];
+    await onSave(tags, excludes);
     pop();
   }
 
-  // ✅ Don’t pop here; reload only happens when you go back
-  async function createLocal(name: string, color: string) {
-    await onCreateGlobal(name, color);
-    await new Promise((r) => setTimeout(r, 150));
-    TagEvents.emit("tagsReload");
-  }
-
-  async function editLocal(id: string, newName: string, newColor: string) {
-    await onEditGlobal(id, newName, newColor);
-    await new Promise((r) => setTimeout(r, 150));
-    TagEvents.emit("tagsReload");
-  }
-
-  async function deleteLocal(id: string) {
-    await onDeleteGlobal(id);
-    await new Promise((r) => setTimeout(r, 150));
-    TagEvents.emit("tagsReload");
-  }
-
   if (isLoading) return <List isLoading navigationTitle={`Tags for ${app.name}`} />;
 
-  const tagItems = availableTagIds
-    .map((tagId) => {
-      const def = tagDefinitions[tagId];
-      if (!def) return null;
-      return {
-        id: tagId,
-        key: `${tagId}-${def.name}-${def.color}-${formVersion}`,
-        name: def.name,
-        color: def.color,
-      };
-    })
-    .filter((item): item is { id: string; key: string; name: string; color: string } => item !== null);
+  const tagItems = flattenTagTree(tagDefinitions, availableTagIds).map(({ def, path }) => ({
+    id: def.id,
+    key: `${def.id}-${path}-${def.color}-${def.icon}-${formVersion}`,
+    name: path,
+    icon: getTagIcon(def.id, tagDefinitions),
+  }));
+
+  const smartMatches = matchSmartTags(app, tagDefinitions);
 
   return (
     <Form
@@ -159,10 +79,14 @@ export function TagEditor({
             icon={Icon.Gear}
             target={
               <TagsManager
-                onCreate={createLocal}
-                onEdit={editLocal}
-                onDelete={deleteLocal}
-                onWillDisappear={() => TagEvents.emit("tagsReload")}
+                onCreate={onCreateGlobal}
+                onEdit={onEditGlobal}
+                onDelete={onDeleteGlobal}
+                onBulkAssign={onBulkAssignGlobal}
+                onReorder={onReorderGlobal}
+                onMerge={onMergeGlobal}
+                onDuplicate={onDuplicateGlobal}
+                onImport={onImportGlobal}
               />
             }
           />
@@ -171,14 +95,36 @@ export function TagEditor({
     >
       <Form.TagPicker id="tags" title="Tags" value={selectedTagIds} onChange={setSelectedTagIds}>
         {tagItems.map((item) => (
-          <Form.TagPicker.Item
-            key={item.key}
-            value={item.id}
-            title={item.name}
-            icon={{ source: Icon.Tag, tintColor: item.color }}
-          />
+          <Form.TagPicker.Item key={item.key} value={item.id} title={item.name} icon={item.icon} />
         ))}
       </Form.TagPicker>
+      {smartMatches.length > 0 && (
+        <>
+          <Form.Separator />
+          <Form.Description
+            title="Smart Tags"
+            text={smartMatches
+              .map(({ tagId, rule }) => `${getTagPath(tagId, tagDefinitions)}: ${describeRule(rule)}`)
+              .join("\n")}
+          />
+          <Form.TagPicker
+            id="excludes"
+            title="Exclude From"
+            info="Smart tags this app should not get even though a rule matches it"
+            value={excludedTagIds}
+            onChange={setExcludedTagIds}
+          >
+            {smartMatches.map(({ tagId }) => (
+              <Form.TagPicker.Item
+                key={`${tagId}-${formVersion}`}
+                value={tagId}
+                title={getTagPath(tagId, tagDefinitions)}
+                icon={{ source: Icon.Wand, tintColor: getTagColor(tagId, tagDefinitions) }}
+              />
+            ))}
+          </Form.TagPicker>
+        </>
+      )}
     </Form>
   );
 }
@@ -0,0 +1,32 @@
+import { Grid, Icon, List } from "@raycast/api";
+import { ALL_APPS_FILTER, UNTAGGED_FILTER } from "../constants";
+import { flattenTagTree, getTagIcon } from "../tags";
+import { TagDefinitions, ViewMode } from "../types";
+
+export function TagFilterDropdown({
+  viewMode,
+  tagDefinitions,
+  tagOrder,
+  value,
+  onChange,
+}: {
+  viewMode: ViewMode;
+  tagDefinitions: TagDefinitions;
+  tagOrder: string[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const Dropdown = viewMode === "grid" ? Grid.Dropdown : List.Dropdown;
+
+  return (
+    <Dropdown tooltip="Filter by Tag" value={value} onChange={onChange}>
+      <Dropdown.Item value={ALL_APPS_FILTER} title="All" icon={Icon.AppWindowGrid3x3} />
+      <Dropdown.Item value={UNTAGGED_FILTER} title="Untagged" icon={Icon.Circle} />
+      <Dropdown.Section title="Tags">
+        {flattenTagTree(tagDefinitions, tagOrder).map(({ def, path }) => (
+          <Dropdown.Item key={def.id} value={def.id} title={path} icon={getTagIcon(def.id, tagDefinitions)} />
+        ))}
+      </Dropdown.Section>
+    </Dropdown>
+  );
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { TagDefinitions } from "../types";
+import { TagFormValues, toTagInput, validateTagInput } from "./tag-form";
+import { initialTagMetadata } from "./tag-metadata-fields";
+
+const tagDefinitions: TagDefinitions = {
+  work: { id: "work", name: "Work", shortcut: "w" },
+  dev: { id: "dev", name: "Dev", parentId: "work" },
+};
+
+const values = (overrides: Partial<TagFormValues> = {}): TagFormValues => ({
+  name: "Design",
+  parentId: "work",
+  inheritColor: false,
+  color: "#ff0000",
+  rulesText: "",
+  metadata: initialTagMetadata(),
+  ...overrides,
+});
+
+describe("validateTagInput", () => {
+  it("accepts a valid form", () => {
+    expect(validateTagInput(values(), tagDefinitions)).toBeUndefined();
+    expect(validateTagInput(values({ color: "nope", inheritColor: true }), tagDefinitions)).toBeUndefined();
+  });
+
+  it.each<[Partial<TagFormValues>, string, string | undefined]>([
+    [{ name: "  " }, "Tag name cannot be empty", undefined],
+    [{ name: "A/B" }, "Invalid tag name", 'Use the Parent field instead of "/"'],
+    [{ name: "R&D; Ops" }, "Invalid tag name", `Tag names can't contain ";"`],
+    [{ name: " dev " }, "Tag already exists", '"Work/Dev" has the same name'],
+    [{ rulesText: "title: x" }, "Invalid smart tag rule", 'Line 1: start with "bundleId:", "path:", "name:"'],
+    [{ color: "red" }, "Invalid HEX color", "Use #RRGGBB like #FF0000"],
+    [
+      { metadata: { ...initialTagMetadata(), shortcut: "W" } },
+      "Invalid tag details",
+      "Shortcut is already used by Work",
+    ],
+  ])("reports %j", (overrides, title, message) => {
+    expect(validateTagInput(values(overrides), tagDefinitions)).toEqual({ title, message });
+  });
+
+  it("ignores the tag being edited", () => {
+    const edit = values({ name: "Work", parentId: "", metadata: initialTagMetadata(tagDefinitions.work) });
+    expect(validateTagInput(edit, tagDefinitions)?.title).toBe("Tag already exists");
+    expect(validateTagInput(edit, tagDefinitions, "work")).toBeUndefined();
+  });
+});
+
+describe("toTagInput", () => {
+  it("cleans the name and drops an inherited color and empty fields", () => {
+    expect(toTagInput(values({ name: "  Design  Ops ", inheritColor: true, rulesText: "name: Figma" }))).toEqual({
+      name: "Design Ops",
+      color: undefined,
+      parentId: "work",
+      rules: [{ field: "name", kind: "glob", pattern: "Figma" }],
+      icon: undefined,
+      description: undefined,
+      shortcut: undefined,
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { isValidHexColor } from "../helpers";
+import { parseRules } from "../smart-tags";
+import { cleanTagName, findNameConflict, getTagPath, TAG_LIST_SEPARATOR, TAG_PATH_SEPARATOR } from "../tags";
+import { TagDefinitions, TagInput } from "../types";
+import { TagMetadataValues, toTagMetadata, validateTagMetadata } from "./tag-metadata-fields";
+
+/** Form state shared by the create and edit tag forms */
+export interface TagFormValues {
+  name: string;
+  /** `""` for a root tag */
+  parentId: string;
+  inheritColor: boolean;
+  color: string;
+  rulesText: string;
+  metadata: TagMetadataValues;
+}
+
+/** Shown as a failure toast */
+export interface TagFormError {
+  title: string;
+  message?: string;
+}
+
+/** The first problem with the form, if any; `selfId` is the tag being edited */
+export function validateTagInput(
+  values: TagFormValues,
+  tagDefinitions: TagDefinitions,
+  selfId?: string,
+): TagFormError | undefined {
+  const { name, parentId } = values;
+  if (!name.trim()) return { title: "Tag name cannot be empty" };
+  if (name.includes(TAG_PATH_SEPARATOR)) {
+    return { title: "Invalid tag name", message: `Use the Parent field instead of "${TAG_PATH_SEPARATOR}"` };
+  }
+  if (name.includes(TAG_LIST_SEPARATOR)) {
+    return { title: "Invalid tag name", message: `Tag names can't contain "${TAG_LIST_SEPARATOR}"` };
+  }
+  const conflict = findNameConflict(name, parentId, tagDefinitions, selfId);
+  if (conflict) {
+    return { title: "Tag already exists", message: `"${getTagPath(conflict.id, tagDefinitions)}" has the same name` };
+  }
+  const { errors } = parseRules(values.rulesText);
+  if (errors.length > 0) return { title: "Invalid smart tag rule", message: errors[0] };
+  if (!(parentId && values.inheritColor) && !isValidHexColor(values.color)) {
+    return { title: "Invalid HEX color", message: "Use #RRGGBB like #FF0000" };
+  }
+  const metadataError = validateTagMetadata(values.metadata, tagDefinitions, selfId);
+  if (metadataError) return { title: "Invalid tag details", message: metadataError };
+  return undefined;
+}
+
+/** The tag a valid form describes */
+export function toTagInput(values: TagFormValues): TagInput {
+  const { rules } = parseRules(values.rulesText);
+  const inherits = !!values.parentId && values.inheritColor;
+  return {
+    name: cleanTagName(values.name),
+    color: inherits ? undefined : values.color,
+    parentId: values.parentId || undefined,
+    rules: rules.length > 0 ? rules : undefined,
+    ...toTagMetadata(values.metadata),
+  };
+}
@@ -0,0 +1,84 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, List } from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { useTagState } from "../hooks/use-tag-state";
+import { tagStore } from "../tag-store";
+import { TagOperation } from "../types";
+
+export function TagHistory({ onUndo }: { onUndo: (operationId: string) => Promise<void> }) {
+  const [history, setHistory] = useState<TagOperation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setHistory(await tagStore.history());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Changes made elsewhere (e.g. undone from a toast) show up right away.
+  useTagState({ onChange: reload });
+
+  async function undoTo(index: number) {
+    const operation = history[index];
+    if (index > 0) {
+      const confirmed = await confirmAlert({
+        title: `Undo ${index + 1} Changes`,
+        message: `"${operation.label}" and the ${index} change(s) made after it will be undone.`,
+        icon: Icon.ArrowCounterClockwise,
+        primaryAction: { title: "Undo", style: Alert.ActionStyle.Destructive },
+      });
+      if (!confirmed) return;
+    }
+    await onUndo(operation.id);
+  }
+
+  async function handleClear() {
+    const confirmed = await confirmAlert({
+      title: "Clear History",
+      message: "Past tag changes can no longer be undone.",
+      icon: Icon.Trash,
+      primaryAction: { title: "Clear", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await tagStore.clearHistory();
+    await reload();
+  }
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Tag History" searchBarPlaceholder="Search changes...">
+      <List.EmptyView
+        icon={Icon.Clock}
+        title="No Changes Yet"
+        description="Tag changes show up here and can be undone"
+      />
+      {history.map((operation, index) => (
+        <List.Item
+          key={operation.id}
+          title={operation.label}
+          icon={index === 0 ? Icon.ArrowCounterClockwise : Icon.Clock}
+          accessories={[
+            { date: new Date(operation.timestamp), tooltip: new Date(operation.timestamp).toLocaleString() },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action
+                title={index === 0 ? "Undo" : `Undo This and ${index} Newer Change(s)`}
+                icon={Icon.ArrowCounterClockwise}
+                onAction={() => undoTo(index)}
+              />
+              <Action
+                title="Clear History"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                onAction={handleClear}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
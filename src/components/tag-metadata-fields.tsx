@@ -0,0 +1,112 @@
+import { Form, Icon } from "@raycast/api";
+import { findShortcutOwner, isValidTagShortcut, TAG_ICON_NAMES } from "../tags";
+import { TagDefinition, TagDefinitions } from "../types";
+
+/** Form state for the optional tag fields shared by the create and edit forms */
+export interface TagMetadataValues {
+  iconName: string;
+  emoji: string;
+  description: string;
+  shortcut: string;
+}
+
+export function initialTagMetadata(def?: TagDefinition): TagMetadataValues {
+  const icon = def?.icon ?? "";
+  const isIconName = (TAG_ICON_NAMES as string[]).includes(icon);
+  return {
+    iconName: isIconName ? icon : "",
+    emoji: isIconName ? "" : icon,
+    description: def?.description ?? "",
+    shortcut: def?.shortcut ?? "",
+  };
+}
+
+/** An error message for the first invalid field, if any */
+export function validateTagMetadata(
+  values: TagMetadataValues,
+  tagDefinitions: TagDefinitions,
+  tagId?: string,
+): string | undefined {
+  const emoji = values.emoji.trim();
+  if (emoji && (!/\p{Extended_Pictographic}/u.test(emoji) || [...emoji].length > 8)) {
+    return "Emoji must be a single emoji";
+  }
+  const shortcut = values.shortcut.trim().toLowerCase();
+  if (shortcut && !isValidTagShortcut(shortcut)) return "Shortcut must be a single letter or digit";
+  const owner = shortcut ? findShortcutOwner(shortcut, tagDefinitions, tagId) : undefined;
+  if (owner) return `Shortcut is already used by ${owner.name}`;
+  return undefined;
+}
+
+export function toTagMetadata(values: TagMetadataValues): Pick<TagDefinition, "icon" | "description" | "shortcut"> {
+  return {
+    icon: values.emoji.trim() || values.iconName || undefined,
+    description: values.description.trim() || undefined,
+    shortcut: values.shortcut.trim().toLowerCase() || undefined,
+  };
+}
+
+export function TagMetadataFields({
+  values,
+  onChange,
+  name,
+  color,
+}: {
+  values: TagMetadataValues;
+  onChange: (values: TagMetadataValues) => void;
+  /** Tag name and color, for the preview */
+  name: string;
+  color: string;
+}) {
+  const set = (field: keyof TagMetadataValues) => (value: string) => onChange({ ...values, [field]: value });
+  const emoji = values.emoji.trim();
+  const shortcut = values.shortcut.trim();
+  const preview = [
+    `${emoji || `[${values.iconName || "Tag"}]`} ${name.trim() || "Untitled"}`,
+    shortcut && `⌃⌥${shortcut.toUpperCase()}`,
+    values.description.trim(),
+  ]
+    .filter(Boolean)
+    .join("  ·  ");
+
+  return (
+    <>
+      <Form.Separator />
+      <Form.Dropdown id="iconName" title="Icon" value={values.iconName} onChange={set("iconName")}>
+        <Form.Dropdown.Item value="" title="Tag (Default)" icon={{ source: Icon.Tag, tintColor: color }} />
+        {TAG_ICON_NAMES.map((iconName) => (
+          <Form.Dropdown.Item
+            key={iconName}
+            value={iconName}
+            title={iconName}
+            icon={{ source: Icon[iconName], tintColor: color }}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="emoji"
+        title="Emoji"
+        placeholder="e.g. 🚀"
+        info="Shown instead of the icon"
+        value={values.emoji}
+        onChange={set("emoji")}
+      />
+      <Form.TextField
+        id="description"
+        title="Description"
+        placeholder="What the tag is for"
+        value={values.description}
+        onChange={set("description")}
+      />
+      <Form.TextField
+        id="shortcut"
+        title="Filter Shortcut"
+        placeholder="e.g. w"
+        info="Press ⌃ + ⌥ + this key in Browse Apps to show only apps with this tag"
+        value={values.shortcut}
+        onChange={set("shortcut")}
+      />
+      <Form.Description title="Preview" text={preview} />
+    </>
+  );
+}
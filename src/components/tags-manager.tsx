@@ -1,52 +1,116 @@
-import { Action, ActionPanel, Icon, List, LocalStorage, confirmAlert, Alert } from "@raycast/api";
-import { useEffect, useState } from "react";
-import { TAG_DEFINITIONS_KEY } from "../constants";
-import { TagDefinitions } from "../types";
+import {
+  Action,
+  ActionPanel,
+  Application,
+  Clipboard,
+  Icon,
+  List,
+  confirmAlert,
+  Alert,
+  showInFinder,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { createDeeplink, showFailureToast } from "@raycast/utils";
+import { useTagState } from "../hooks/use-tag-state";
+import { exportTags, saveExport } from "../import-export";
+import { describeRule } from "../smart-tags";
+import {
+  flattenTagTree,
+  getChildTagIds,
+  getDescendantTagIds,
+  getTagIcon,
+  getTagPath,
+  moveTag,
+  sortTagsAlphabetically,
+  TagMove,
+} from "../tags";
+import { BulkTagMode, ChildTagStrategy, ExportFormat, ImportMode, TagImport, TagInput } from "../types";
+import { BulkTagEditor } from "./bulk-tag-editor";
 import { CreateTagForm } from "./create-tag-form";
 import { EditTagForm } from "./edit-tag-form";
+import { ImportTagsForm } from "./import-tags-form";
+
+const TREE_INDENT = "\u2003";
 
 export function TagsManager({
   onCreate,
   onEdit,
   onDelete,
-  onWillDisappear,
+  onBulkAssign,
+  onReorder,
+  onMerge,
+  onDuplicate,
+  onImport,
 }: {
-  onCreate: (name: string, color: string) => void;
-  onEdit: (id: string, newName: string, newColor: string) => void;
-  onDelete: (id: string) => void;
-  onWillDisappear?: () => void;
+  onCreate: (input: TagInput) => void;
+  onEdit: (id: string, input: TagInput) => void;
+  onDelete: (id: string, children: ChildTagStrategy) => void;
+  onBulkAssign: (tagId: string, mode: BulkTagMode, apps: Application[]) => Promise<void>;
+  onReorder: (order: string[]) => Promise<void>;
+  onMerge: (sourceId: string, targetId: string) => Promise<void>;
+  onDuplicate: (id: string) => Promise<void>;
+  onImport: (data: TagImport, mode: ImportMode) => Promise<void>;
 }) {
-  const [tagDefinitions, setTagDefinitions] = useState<TagDefinitions>({});
+  const { database, isLoading } = useTagState();
+  const { tagDefinitions, tagOrder } = database;
+
+  async function handleMove(id: string, move: TagMove) {
+    await onReorder(moveTag(id, move, tagDefinitions, tagOrder));
+  }
 
-  useEffect(() => {
-    return () => {
-      onWillDisappear?.();
-    };
-  }, []);
+  async function handleSortAlphabetically() {
+    await onReorder(sortTagsAlphabetically(tagDefinitions, tagOrder));
+  }
+
+  async function handleCopyExport(format: ExportFormat) {
+    await Clipboard.copy(exportTags(database, format));
+    await showToast(Toast.Style.Success, "Tags Copied", `${tagOrder.length} tag(s) as ${format.toUpperCase()}`);
+  }
 
-  useEffect(() => {
-    let cancelled = false;
-    async function load() {
-      const defsStr = await LocalStorage.getItem<string>(TAG_DEFINITIONS_KEY);
-      if (!defsStr || cancelled) return;
-      try {
-        setTagDefinitions(JSON.parse(defsStr));
-      } catch {
-        /* ignore */
-      }
+  async function handleSaveExport(format: ExportFormat) {
+    try {
+      const filePath = await saveExport(exportTags(database, format), format);
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Tags Exported",
+        message: filePath,
+        primaryAction: { title: "Show in Finder", onAction: () => showInFinder(filePath) },
+      });
+    } catch (err) {
+      await showFailureToast(err, { title: "Could not save export" });
     }
-    load();
-    const interval = setInterval(load, 1000);
-    return () => {
-      cancelled = true;
-      clearInterval(interval);
-    };
-  }, []);
+  }
 
-  async function handleDelete(id: string, name: string) {
+  const importExportSection = (
+    <ActionPanel.Section>
+      <ActionPanel.Submenu title="Export Tags" icon={Icon.Upload} shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}>
+        <Action title="Copy as JSON" icon={Icon.CopyClipboard} onAction={() => handleCopyExport("json")} />
+        <Action title="Copy as CSV" icon={Icon.CopyClipboard} onAction={() => handleCopyExport("csv")} />
+        <Action title="Save as JSON" icon={Icon.SaveDocument} onAction={() => handleSaveExport("json")} />
+        <Action title="Save as CSV" icon={Icon.SaveDocument} onAction={() => handleSaveExport("csv")} />
+      </ActionPanel.Submenu>
+      <Action.Push
+        title="Import Tags"
+        icon={Icon.Download}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+        target={<ImportTagsForm onImport={onImport} />}
+      />
+    </ActionPanel.Section>
+  );
+
+  async function handleDelete(id: string, name: string, children: ChildTagStrategy) {
+    const childCount = getDescendantTagIds(id, tagDefinitions).length;
+    const message =
+      childCount === 0
+        ? `Are you sure you want to delete the tag "${name}"?`
+        : children === "delete"
+          ? `Are you sure you want to delete the tag "${name}" and its ${childCount} child tag(s)?`
+          : `Are you sure you want to delete the tag "${name}"? Its child tags will move up one level.`;
     const confirmed = await confirmAlert({
       title: "Delete Tag",
-      message: `Are you sure you want to delete the tag "${name}"?`,
+      message,
       icon: Icon.Trash,
       primaryAction: {
         title: "Delete",
@@ -54,40 +118,194 @@ export function TagsManager({
       },
     });
     if (confirmed) {
-      onDelete(id);
+      onDelete(id, children);
     }
   }
 
   return (
-    <List navigationTitle="Manage Tags">
-      {Object.values(tagDefinitions).map((def) => (
-        <List.Item
-          key={def.id}
-          title={def.name}
-          icon={{ source: Icon.Tag, tintColor: def.color }}
-          actions={
-            <ActionPanel>
-              <Action.Push title="Edit Tag" icon={Icon.Pencil} target={<EditTagForm tagDef={def} onEdit={onEdit} />} />
-              <Action
-                title="Delete Tag"
-                icon={Icon.Trash}
-                style={Action.Style.Destructive}
-                onAction={() => handleDelete(def.id, def.name)}
-              />
-            </ActionPanel>
-          }
-        />
-      ))}
+    <List isLoading={isLoading} navigationTitle="Manage Tags">
+      {flattenTagTree(tagDefinitions, tagOrder).map(({ def, depth, path }) => {
+        const childCount = getChildTagIds(def.id, tagDefinitions).length;
+        return (
+          <List.Item
+            key={def.id}
+            title={`${TREE_INDENT.repeat(depth)}${def.name}`}
+            subtitle={def.description ?? (def.parentId ? getTagPath(def.parentId, tagDefinitions) : undefined)}
+            keywords={[path, ...(def.description ? [def.description] : [])]}
+            icon={getTagIcon(def.id, tagDefinitions)}
+            accessories={[
+              ...(def.shortcut
+                ? [{ text: `⌃⌥${def.shortcut.toUpperCase()}`, tooltip: "Filter shortcut in Browse Apps" }]
+                : []),
+              ...(def.rules?.length ? [{ icon: Icon.Wand, tooltip: def.rules.map(describeRule).join("\n") }] : []),
+              ...(childCount > 0 ? [{ text: `${childCount} child tag(s)`, icon: Icon.Folder }] : []),
+            ]}
+            actions={
+              <ActionPanel>
+                <Action.Push
+                  title="Edit Tag"
+                  icon={Icon.Pencil}
+                  target={
+                    <EditTagForm tagDef={def} onEdit={onEdit} tagDefinitions={tagDefinitions} tagOrder={tagOrder} />
+                  }
+                />
+                <Action.Push
+                  title="Assign to Many Apps"
+                  icon={Icon.CheckList}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "b" }}
+                  target={<BulkTagEditor initialTagId={def.id} onApply={onBulkAssign} />}
+                />
+                <Action
+                  title="Duplicate Tag"
+                  icon={Icon.CopyClipboard}
+                  shortcut={{ modifiers: ["cmd"], key: "d" }}
+                  onAction={() => onDuplicate(def.id)}
+                />
+                <Action.Push
+                  title="Merge into…"
+                  icon={Icon.ArrowsContract}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+                  target={<MergeTagPicker sourceId={def.id} onMerge={onMerge} />}
+                />
+                <Action.CreateQuicklink
+                  title="Create Quicklink"
+                  icon={Icon.Link}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+                  quicklink={{
+                    name: `Open ${path}`,
+                    link: createDeeplink({ command: "launch-tag", arguments: { tag: path } }),
+                  }}
+                />
+                <Action.Push
+                  title="Create Child Tag"
+                  icon={Icon.Plus}
+                  shortcut={{ modifiers: ["cmd"], key: "n" }}
+                  target={
+                    <CreateTagForm
+                      onCreate={onCreate}
+                      tagDefinitions={tagDefinitions}
+                      tagOrder={tagOrder}
+                      defaultParentId={def.id}
+                    />
+                  }
+                />
+                {childCount === 0 ? (
+                  <Action
+                    title="Delete Tag"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    onAction={() => handleDelete(def.id, def.name, "promote")}
+                  />
+                ) : (
+                  <ActionPanel.Submenu title="Delete Tag" icon={Icon.Trash}>
+                    <Action
+                      title="Delete and Keep Children"
+                      icon={Icon.ArrowUp}
+                      onAction={() => handleDelete(def.id, def.name, "promote")}
+                    />
+                    <Action
+                      title="Delete Including Children"
+                      icon={Icon.Trash}
+                      style={Action.Style.Destructive}
+                      onAction={() => handleDelete(def.id, def.name, "delete")}
+                    />
+                  </ActionPanel.Submenu>
+                )}
+                <ActionPanel.Section title="Order">
+                  <Action
+                    title="Move up"
+                    icon={Icon.ArrowUp}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+                    onAction={() => handleMove(def.id, "up")}
+                  />
+                  <Action
+                    title="Move Down"
+                    icon={Icon.ArrowDown}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+                    onAction={() => handleMove(def.id, "down")}
+                  />
+                  <Action
+                    title="Move to Top"
+                    icon={Icon.ChevronUpSmall}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "arrowUp" }}
+                    onAction={() => handleMove(def.id, "top")}
+                  />
+                  <Action
+                    title="Move to Bottom"
+                    icon={Icon.ChevronDownSmall}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "arrowDown" }}
+                    onAction={() => handleMove(def.id, "bottom")}
+                  />
+                  <Action title="Sort Alphabetically" icon={Icon.Text} onAction={handleSortAlphabetically} />
+                </ActionPanel.Section>
+                {importExportSection}
+              </ActionPanel>
+            }
+          />
+        );
+      })}
       <List.Item
         key="create"
         title="Create New Tag"
         icon={Icon.Plus}
         actions={
           <ActionPanel>
-            <Action.Push title="Create" icon={Icon.Plus} target={<CreateTagForm onCreate={onCreate} />} />
+            <Action.Push
+              title="Create"
+              icon={Icon.Plus}
+              target={<CreateTagForm onCreate={onCreate} tagDefinitions={tagDefinitions} tagOrder={tagOrder} />}
+            />
+            {importExportSection}
           </ActionPanel>
         }
       />
     </List>
   );
-}
\ No newline at end of file
+}
+
+function MergeTagPicker({
+  sourceId,
+  onMerge,
+}: {
+  sourceId: string;
+  onMerge: (sourceId: string, targetId: string) => Promise<void>;
+}) {
+  const { pop } = useNavigation();
+  const {
+    database: { tagDefinitions, tagOrder, appTags },
+  } = useTagState();
+  const sourceName = tagDefinitions[sourceId] ? getTagPath(sourceId, tagDefinitions) : "";
+  const appCount = Object.values(appTags).filter((tagIds) => tagIds.includes(sourceId)).length;
+
+  async function handleMerge(targetId: string) {
+    const targetName = getTagPath(targetId, tagDefinitions);
+    const confirmed = await confirmAlert({
+      title: "Merge Tags",
+      message: `${appCount} app(s) tagged "${sourceName}" will be tagged "${targetName}" instead, and "${sourceName}" will be deleted.`,
+      icon: Icon.ArrowsContract,
+      primaryAction: { title: "Merge", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await onMerge(sourceId, targetId);
+    pop();
+  }
+
+  return (
+    <List navigationTitle={`Merge ${sourceName} into…`} searchBarPlaceholder="Search tags...">
+      {flattenTagTree(tagDefinitions, tagOrder)
+        .filter(({ def }) => def.id !== sourceId)
+        .map(({ def, path }) => (
+          <List.Item
+            key={def.id}
+            title={path}
+            icon={getTagIcon(def.id, tagDefinitions)}
+            actions={
+              <ActionPanel>
+                <Action title="Merge Here" icon={Icon.ArrowsContract} onAction={() => handleMerge(def.id)} />
+              </ActionPanel>
+            }
+          />
+        ))}
+    </List>
+  );
+}
@@ -1,4 +1,20 @@
 export const PAGE_SIZE = 15;
+export const ALL_APPS_FILTER = "all";
+export const UNTAGGED_FILTER = "untagged";
+export const DATABASE_KEY = "tagdatabase";
+export const DATABASE_VERSION = 5;
+export const LAUNCH_HISTORY_KEY = "launchhistory";
+export const VIEW_MODE_KEY = "viewmode";
+export const GROUP_BY_TAG_KEY = "groupbytag";
+export const HISTORY_KEY = "taghistory";
+export const TAG_FILTER_KEY = "tagfilter";
+export const SYNC_STATE_KEY = "syncstate";
+export const SYNC_CONFLICTS_KEY = "syncconflicts";
+export const APP_METADATA_KEY = "appmetadata";
+export const DETAIL_PANE_KEY = "showdetail";
+
+/* Legacy (pre-database) keys, only read while migrating */
 export const TAG_ORDER_KEY = "tagorder";
 export const TAG_DEFINITIONS_KEY = "tagdefinitions";
+/** Older versions bumped this to make other views reload; it is ignored now */
 export const REFRESH_KEY = "refreshVersion";
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DATABASE_KEY, DATABASE_VERSION, LAUNCH_HISTORY_KEY, VIEW_MODE_KEY } from "./constants";
+import { emptyDatabase, loadDatabase } from "./database";
+import { createMemoryBackend } from "./storage";
+
+const legacyItems = {
+  tagdefinitions: JSON.stringify({ work: { id: "work", name: "Work", color: "#ff0000" } }),
+  tagorder: JSON.stringify(["work"]),
+  "com.slack": JSON.stringify(["work"]),
+  "/Applications/Notes.app": JSON.stringify(["work"]),
+};
+
+describe("loadDatabase", () => {
+  // Broken data is logged on purpose; keep it out of the test output.
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it("migrates legacy per-app keys into the versioned document", async () => {
+    const backend = createMemoryBackend(legacyItems);
+    const database = await loadDatabase(backend);
+
+    expect(database).toMatchObject({
+      version: DATABASE_VERSION,
+      tagDefinitions: { work: { id: "work", name: "Work", color: "#ff0000" } },
+      tagOrder: ["work"],
+      appTags: { "com.slack": ["work"], "/Applications/Notes.app": ["work"] },
+      quarantine: [],
+    });
+    expect(JSON.parse(backend.items[DATABASE_KEY])).toEqual(database);
+  });
+
+  it("removes the legacy keys once they are migrated", async () => {
+    const backend = createMemoryBackend(legacyItems);
+    await loadDatabase(backend);
+    expect(Object.keys(backend.items)).toEqual([DATABASE_KEY]);
+  });
+
+  it("leaves reserved keys alone", async () => {
+    const backend = createMemoryBackend({
+      ...legacyItems,
+      [LAUNCH_HISTORY_KEY]: JSON.stringify({ "com.slack": [1] }),
+      [VIEW_MODE_KEY]: "grid",
+    });
+    const database = await loadDatabase(backend);
+
+    expect(Object.keys(database.appTags).sort()).toEqual(["/Applications/Notes.app", "com.slack"]);
+    expect(backend.items[LAUNCH_HISTORY_KEY]).toBe(JSON.stringify({ "com.slack": [1] }));
+    expect(backend.items[VIEW_MODE_KEY]).toBe("grid");
+  });
+
+  it("quarantines legacy values that are not JSON or not a tag list", async () => {
+    const backend = createMemoryBackend({ ...legacyItems, "com.broken": "{not json", "com.odd": JSON.stringify(7) });
+    const database = await loadDatabase(backend);
+
+    expect(database.appTags["com.broken"]).toBeUndefined();
+    expect(database.appTags["com.odd"]).toBeUndefined();
+    expect(database.quarantine.map(({ key, value, reason }) => ({ key, value, reason }))).toEqual(
+      expect.arrayContaining([
+        { key: "com.broken", value: "{not json", reason: "Invalid JSON" },
+        { key: "com.odd", value: "7", reason: "App tags are not a list of tag ids" },
+      ]),
+    );
+    expect(backend.items["com.broken"]).toBeUndefined();
+  });
+
+  it("quarantines an unreadable document and invalid tag definitions", async () => {
+    const unreadable = createMemoryBackend({ [DATABASE_KEY]: "{not json" });
+    const empty = await loadDatabase(unreadable);
+    expect(empty.tagDefinitions).toEqual({});
+    expect(empty.quarantine).toMatchObject([
+      { key: DATABASE_KEY, value: "{not json", reason: "Unreadable database document" },
+    ]);
+
+    const badShape = createMemoryBackend({
+      [DATABASE_KEY]: JSON.stringify({
+        ...emptyDatabase(),
+        tagDefinitions: { work: { id: "work", name: "Work" }, bad: { id: "bad", name: 3 } },
+        hiddenApps: "com.slack",
+      }),
+    });
+    const database = await loadDatabase(badShape);
+    expect(Object.keys(database.tagDefinitions)).toEqual(["work"]);
+    expect(database.hiddenApps).toEqual([]);
+    expect(database.quarantine.map((entry) => entry.reason)).toEqual([
+      "Invalid tag definition",
+      "Hidden apps are not a list of apps",
+    ]);
+    expect(JSON.parse(badShape.items[DATABASE_KEY]).quarantine).toHaveLength(2);
+  });
+
+  it("never downgrades a document written by a newer version", async () => {
+    const stored = JSON.stringify({
+      ...emptyDatabase(),
+      version: DATABASE_VERSION + 1,
+      tagDefinitions: { work: { id: "work", name: "Work" } },
+      futureField: true,
+    });
+    const backend = createMemoryBackend({ [DATABASE_KEY]: stored });
+    const database = await loadDatabase(backend);
+
+    expect(database.version).toBe(DATABASE_VERSION + 1);
+    expect(database.tagDefinitions.work.name).toBe("Work");
+    expect(backend.items[DATABASE_KEY]).toBe(stored);
+  });
+});
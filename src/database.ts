@@ -0,0 +1,371 @@
+import { showToast, Toast } from "@raycast/api";
+import {
+  APP_METADATA_KEY,
+  DATABASE_KEY,
+  DATABASE_VERSION,
+  DETAIL_PANE_KEY,
+  GROUP_BY_TAG_KEY,
+  HISTORY_KEY,
+  LAUNCH_HISTORY_KEY,
+  REFRESH_KEY,
+  SYNC_CONFLICTS_KEY,
+  SYNC_STATE_KEY,
+  TAG_DEFINITIONS_KEY,
+  TAG_FILTER_KEY,
+  TAG_ORDER_KEY,
+  VIEW_MODE_KEY,
+} from "./constants";
+import { localStorageBackend, StorageBackend } from "./storage";
+import { canBeParent, isValidTagShortcut } from "./tags";
+import {
+  AppDetails,
+  AppDetailsMap,
+  AppTags,
+  QuarantinedEntry,
+  TagDatabase,
+  TagDefinition,
+  TagDefinitions,
+  TagRule,
+} from "./types";
+
+type RawDocument = { version: number } & Record<string, unknown>;
+
+interface Migration {
+  version: number;
+  migrate: (doc: RawDocument) => RawDocument;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Migrations                                 */
+/* -------------------------------------------------------------------------- */
+// Each migration lifts a document from `version - 1` to `version`.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    migrate: (doc) => ({ ...doc, version: 1, quarantine: doc.quarantine ?? [] }),
+  },
+  {
+    version: 2,
+    migrate: (doc) => ({ ...doc, version: 2, appTagExcludes: doc.appTagExcludes ?? {} }),
+  },
+  {
+    version: 3,
+    migrate: (doc) => ({ ...doc, version: 3, appDetails: doc.appDetails ?? {} }),
+  },
+  {
+    version: 4,
+    migrate: (doc) => ({ ...doc, version: 4, hiddenApps: doc.hiddenApps ?? [], ignoreRules: doc.ignoreRules ?? [] }),
+  },
+  {
+    version: 5,
+    migrate: (doc) => ({ ...doc, version: 5, pinnedApps: doc.pinnedApps ?? [] }),
+  },
+];
+
+function runMigrations(doc: RawDocument): RawDocument {
+  return MIGRATIONS.filter((m) => m.version > doc.version)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, m) => m.migrate(current), doc);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Validation                                 */
+/* -------------------------------------------------------------------------- */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isTagDefinition(value: unknown): value is TagDefinition {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.name === "string" &&
+    value.name.trim().length > 0 &&
+    (value.color === undefined || typeof value.color === "string") &&
+    (value.parentId === undefined || typeof value.parentId === "string") &&
+    (value.rules === undefined || (Array.isArray(value.rules) && value.rules.every(isTagRule))) &&
+    ["icon", "description", "shortcut"].every((field) => value[field] === undefined || typeof value[field] === "string")
+  );
+}
+
+function isTagRule(value: unknown): value is TagRule {
+  return (
+    isRecord(value) &&
+    ["bundleId", "path", "name"].includes(value.field as string) &&
+    ["glob", "regex", "prefix"].includes(value.kind as string) &&
+    typeof value.pattern === "string"
+  );
+}
+
+export function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+export function isAppDetails(value: unknown): value is AppDetails {
+  return (
+    isRecord(value) &&
+    (value.displayName === undefined || typeof value.displayName === "string") &&
+    (value.aliases === undefined || isStringList(value.aliases)) &&
+    (value.keywords === undefined || isStringList(value.keywords))
+  );
+}
+
+function isQuarantinedEntry(value: unknown): value is QuarantinedEntry {
+  return isRecord(value) && typeof value.key === "string" && typeof value.value === "string";
+}
+
+function quarantineEntry(key: string, value: unknown, reason: string): QuarantinedEntry {
+  return {
+    key,
+    value: typeof value === "string" ? value : JSON.stringify(value),
+    reason,
+    quarantinedAt: Date.now(),
+  };
+}
+
+export function emptyDatabase(): TagDatabase {
+  return {
+    version: DATABASE_VERSION,
+    tagDefinitions: {},
+    tagOrder: [],
+    appTags: {},
+    appTagExcludes: {},
+    appDetails: {},
+    hiddenApps: [],
+    ignoreRules: [],
+    pinnedApps: [],
+    quarantine: [],
+  };
+}
+
+function sanitizeAppTags(value: unknown, field: string, quarantined: QuarantinedEntry[]): AppTags {
+  const appTags: AppTags = {};
+  if (isRecord(value)) {
+    for (const [key, tagIds] of Object.entries(value)) {
+      if (isStringList(tagIds)) appTags[key] = tagIds;
+      else quarantined.push(quarantineEntry(key, tagIds, "App tags are not a list of tag ids"));
+    }
+  } else if (value !== undefined) {
+    quarantined.push(quarantineEntry(field, value, "App tags are not an object"));
+  }
+  return appTags;
+}
+
+function sanitizeAppDetails(value: unknown, quarantined: QuarantinedEntry[]): AppDetailsMap {
+  const appDetails: AppDetailsMap = {};
+  if (isRecord(value)) {
+    for (const [key, details] of Object.entries(value)) {
+      if (isAppDetails(details)) appDetails[key] = details;
+      else quarantined.push(quarantineEntry(key, details, "Invalid app details"));
+    }
+  } else if (value !== undefined) {
+    quarantined.push(quarantineEntry("appDetails", value, "App details are not an object"));
+  }
+  return appDetails;
+}
+
+/**
+ * Checks the shape of every part of a (migrated) document. Anything that does not
+ * fit is moved aside into `quarantine` so it can still be recovered by hand.
+ */
+export function sanitizeDatabase(doc: RawDocument): { database: TagDatabase; quarantined: QuarantinedEntry[] } {
+  const quarantined: QuarantinedEntry[] = [];
+
+  const tagDefinitions: TagDefinitions = {};
+  if (isRecord(doc.tagDefinitions)) {
+    for (const [id, def] of Object.entries(doc.tagDefinitions)) {
+      if (isTagDefinition(def) && def.id === id) tagDefinitions[id] = def;
+      else quarantined.push(quarantineEntry(`${TAG_DEFINITIONS_KEY}.${id}`, def, "Invalid tag definition"));
+    }
+  } else if (doc.tagDefinitions !== undefined) {
+    quarantined.push(quarantineEntry(TAG_DEFINITIONS_KEY, doc.tagDefinitions, "Tag definitions are not an object"));
+  }
+  // Dangling or circular parents turn the tag back into a root tag.
+  for (const def of Object.values(tagDefinitions)) {
+    if (def.parentId && (!tagDefinitions[def.parentId] || !canBeParent(def.parentId, def.id, tagDefinitions))) {
+      tagDefinitions[def.id] = { ...def, parentId: undefined };
+    }
+  }
+  // Shortcuts that aren't a valid key, or that an earlier tag already uses, are dropped.
+  const shortcuts = new Set<string>();
+  for (const def of Object.values(tagDefinitions)) {
+    if (def.shortcut === undefined) continue;
+    if (!isValidTagShortcut(def.shortcut) || shortcuts.has(def.shortcut)) {
+      tagDefinitions[def.id] = { ...def, shortcut: undefined };
+    }
+    shortcuts.add(def.shortcut);
+  }
+
+  let order: string[] = [];
+  if (Array.isArray(doc.tagOrder)) {
+    order = doc.tagOrder.filter((id): id is string => typeof id === "string");
+  } else if (doc.tagOrder !== undefined) {
+    quarantined.push(quarantineEntry(TAG_ORDER_KEY, doc.tagOrder, "Tag order is not an array"));
+  }
+  const allTagIds = Object.keys(tagDefinitions);
+  const tagOrder = [
+    ...order.filter((id, index) => allTagIds.includes(id) && order.indexOf(id) === index),
+    ...allTagIds.filter((id) => !order.includes(id)),
+  ];
+
+  const appTags = sanitizeAppTags(doc.appTags, "appTags", quarantined);
+  const appTagExcludes = sanitizeAppTags(doc.appTagExcludes, "appTagExcludes", quarantined);
+  const appDetails = sanitizeAppDetails(doc.appDetails, quarantined);
+
+  let hiddenApps: string[] = [];
+  if (isStringList(doc.hiddenApps)) hiddenApps = [...new Set(doc.hiddenApps)];
+  else if (doc.hiddenApps !== undefined)
+    quarantined.push(quarantineEntry("hiddenApps", doc.hiddenApps, "Hidden apps are not a list of apps"));
+
+  let pinnedApps: string[] = [];
+  if (isStringList(doc.pinnedApps)) pinnedApps = [...new Set(doc.pinnedApps)];
+  else if (doc.pinnedApps !== undefined)
+    quarantined.push(quarantineEntry("pinnedApps", doc.pinnedApps, "Pinned apps are not a list of apps"));
+
+  let ignoreRules: TagRule[] = [];
+  if (Array.isArray(doc.ignoreRules)) {
+    ignoreRules = doc.ignoreRules.filter(isTagRule);
+    if (ignoreRules.length < doc.ignoreRules.length)
+      quarantined.push(quarantineEntry("ignoreRules", doc.ignoreRules, "Invalid ignore rule"));
+  } else if (doc.ignoreRules !== undefined) {
+    quarantined.push(quarantineEntry("ignoreRules", doc.ignoreRules, "Ignore rules are not an array"));
+  }
+
+  const quarantine = Array.isArray(doc.quarantine) ? doc.quarantine.filter(isQuarantinedEntry) : [];
+
+  return {
+    database: {
+      version: doc.version,
+      tagDefinitions,
+      tagOrder,
+      appTags,
+      appTagExcludes,
+      appDetails,
+      hiddenApps,
+      ignoreRules,
+      pinnedApps,
+      quarantine: [...quarantine, ...quarantined],
+    },
+    quarantined,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Legacy Layout                                */
+/* -------------------------------------------------------------------------- */
+// Before the database existed every app's tag list lived under its own
+// bundleId/path key, next to `tagdefinitions` and `tagorder`.
+/** Keys the extension writes today; everything else in LocalStorage is legacy data */
+const RESERVED_KEYS = [
+  DATABASE_KEY,
+  REFRESH_KEY,
+  LAUNCH_HISTORY_KEY,
+  VIEW_MODE_KEY,
+  GROUP_BY_TAG_KEY,
+  HISTORY_KEY,
+  TAG_FILTER_KEY,
+  SYNC_STATE_KEY,
+  SYNC_CONFLICTS_KEY,
+  APP_METADATA_KEY,
+  DETAIL_PANE_KEY,
+];
+
+function readLegacyDocument(items: Record<string, string>): {
+  doc: RawDocument;
+  legacyKeys: string[];
+  quarantined: QuarantinedEntry[];
+} {
+  const doc: RawDocument = { version: 0, appTags: {} };
+  const appTags: Record<string, unknown> = {};
+  const legacyKeys: string[] = [];
+  const quarantined: QuarantinedEntry[] = [];
+
+  for (const [key, value] of Object.entries(items)) {
+    if (RESERVED_KEYS.includes(key)) continue;
+    legacyKeys.push(key);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      quarantined.push(quarantineEntry(key, value, "Invalid JSON"));
+      continue;
+    }
+    if (key === TAG_DEFINITIONS_KEY) doc.tagDefinitions = parsed;
+    else if (key === TAG_ORDER_KEY) doc.tagOrder = parsed;
+    else appTags[key] = parsed;
+  }
+
+  doc.appTags = appTags;
+  return { doc, legacyKeys, quarantined };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Load / Save                                 */
+/* -------------------------------------------------------------------------- */
+export async function saveDatabase(
+  database: TagDatabase,
+  backend: StorageBackend = localStorageBackend,
+): Promise<void> {
+  await backend.setItem(DATABASE_KEY, JSON.stringify(database));
+}
+
+export async function loadDatabase(backend: StorageBackend = localStorageBackend): Promise<TagDatabase> {
+  const items = await backend.allItems();
+  const quarantined: QuarantinedEntry[] = [];
+  let legacyKeys: string[] = [];
+  let raw: RawDocument;
+
+  if (items[DATABASE_KEY] === undefined) {
+    const legacy = readLegacyDocument(items);
+    raw = legacy.doc;
+    legacyKeys = legacy.legacyKeys;
+    quarantined.push(...legacy.quarantined);
+  } else {
+    try {
+      const parsed = JSON.parse(items[DATABASE_KEY]);
+      if (!isRecord(parsed) || typeof parsed.version !== "number") throw new Error("Not a database document");
+      raw = parsed as RawDocument;
+    } catch (err) {
+      console.error("Failed to parse tag database:", err);
+      quarantined.push(quarantineEntry(DATABASE_KEY, items[DATABASE_KEY], "Unreadable database document"));
+      raw = { ...emptyDatabase(), version: 0 };
+    }
+  }
+
+  if (raw.version > DATABASE_VERSION) {
+    // Written by a newer version of the extension; read what we understand but never downgrade it.
+    console.warn(`Tag database version ${raw.version} is newer than supported version ${DATABASE_VERSION}`);
+    return sanitizeDatabase(raw).database;
+  }
+
+  const startVersion = raw.version;
+  const { database, quarantined: invalid } = sanitizeDatabase(runMigrations(raw));
+  database.quarantine.push(...quarantined);
+  quarantined.push(...invalid);
+
+  if (startVersion !== database.version || quarantined.length > 0) {
+    await saveDatabase(database, backend);
+    for (const key of legacyKeys) await backend.removeItem(key);
+  }
+
+  if (quarantined.length > 0) {
+    console.error("Quarantined broken tag data:", quarantined);
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Data Error",
+      message: `Quarantined ${quarantined.length} broken entr${quarantined.length === 1 ? "y" : "ies"}`,
+    });
+  }
+
+  return database;
+}
+
+export async function updateDatabase(
+  update: (database: TagDatabase) => TagDatabase,
+  backend: StorageBackend = localStorageBackend,
+): Promise<TagDatabase> {
+  const next = update(await loadDatabase(backend));
+  await saveDatabase(next, backend);
+  // Read back, since a syncing backend may have merged edits from elsewhere into what was written.
+  return loadDatabase(backend);
+}
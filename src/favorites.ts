@@ -0,0 +1,36 @@
+import { Application } from "@raycast/api";
+import { appKey } from "./helpers";
+import { TagMove } from "./tags";
+
+/** Section id and Launch Tag name of the pinned apps */
+export const FAVORITES_ID = "favorites";
+export const FAVORITES_TITLE = "Favorites";
+
+export function isPinned(app: Application, pinnedApps: string[]): boolean {
+  return pinnedApps.includes(appKey(app));
+}
+
+/** The pinned apps among `apps`, in pin order */
+export function getPinnedApps(apps: Application[], pinnedApps: string[]): Application[] {
+  const byKey = new Map(apps.map((app) => [appKey(app), app]));
+  return pinnedApps.flatMap((key) => byKey.get(key) ?? []);
+}
+
+/**
+ * Moves a pin among the pins that are currently shown. Pins of hidden or
+ * uninstalled apps keep their slots, so a move never looks like it did nothing.
+ */
+export function movePin(app: Application, move: TagMove, pinnedApps: string[], shownApps: Application[]): string[] {
+  const shownKeys = new Set(shownApps.map(appKey));
+  const key = appKey(app);
+  const shown = pinnedApps.filter((k) => shownKeys.has(k));
+  const index = shown.indexOf(key);
+  if (index === -1) return pinnedApps;
+
+  const reordered = shown.filter((k) => k !== key);
+  const target = { up: index - 1, down: index + 1, top: 0, bottom: reordered.length }[move];
+  reordered.splice(Math.max(0, Math.min(target, reordered.length)), 0, key);
+
+  let next = 0;
+  return pinnedApps.map((k) => (shownKeys.has(k) ? reordered[next++] : k));
+}
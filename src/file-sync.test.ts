@@ -0,0 +1,167 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DATABASE_KEY, SYNC_CONFLICTS_KEY } from "./constants";
+import { createFileSyncBackend, keepMinePatch, mergeDocuments } from "./file-sync";
+import { createMemoryBackend, StorageBackend } from "./storage";
+import { createTagStore } from "./tag-store";
+import { SyncConflict } from "./types";
+
+const tag = (id: string, name = id) => ({ id, name });
+
+describe("mergeDocuments", () => {
+  const base = {
+    version: 5,
+    tagDefinitions: { a: tag("a"), b: tag("b") },
+    tagOrder: ["a", "b"],
+    appTags: { "com.slack": ["a"] },
+    pinnedApps: ["com.slack"],
+  };
+
+  it("takes keys changed on either side", () => {
+    const mine = { ...base, tagDefinitions: { ...base.tagDefinitions, a: tag("a", "Mine") } };
+    const theirs = { ...base, tagDefinitions: { ...base.tagDefinitions, b: tag("b", "Theirs") } };
+
+    const { merged, conflicts } = mergeDocuments(base, mine, theirs);
+    expect(merged.tagDefinitions).toEqual({ a: tag("a", "Mine"), b: tag("b", "Theirs") });
+    expect(conflicts).toEqual([]);
+  });
+
+  it("keeps additions and deletions from both sides", () => {
+    const mine = {
+      ...base,
+      tagDefinitions: { a: tag("a"), c: tag("c") },
+      tagOrder: ["a", "c"],
+    };
+    const theirs = {
+      ...base,
+      tagDefinitions: { ...base.tagDefinitions, d: tag("d") },
+      tagOrder: ["a", "b", "d"],
+      appTags: {},
+    };
+
+    const { merged, conflicts } = mergeDocuments(base, mine, theirs);
+    expect(merged.tagDefinitions).toEqual({ a: tag("a"), c: tag("c"), d: tag("d") });
+    expect(merged.tagOrder).toEqual(["a", "d", "c"]);
+    expect(merged.appTags).toEqual({});
+    expect(conflicts).toEqual([]);
+  });
+
+  it("keeps the file's value and reports a conflict when both sides changed a key", () => {
+    const mine = { ...base, appTags: { "com.slack": ["a", "b"] } };
+    const theirs = { ...base, appTags: {} };
+
+    const { merged, conflicts } = mergeDocuments(base, mine, theirs);
+    expect(merged.appTags).toEqual({});
+    expect(conflicts).toEqual([
+      { part: "appTags", key: "com.slack", mine: ["a", "b"], theirs: null, detectedAt: expect.any(Number) },
+    ]);
+  });
+
+  it("does not report keys both sides changed the same way", () => {
+    const change = { ...base, pinnedApps: [], tagDefinitions: { ...base.tagDefinitions, a: tag("a", "Same") } };
+
+    const { merged, conflicts } = mergeDocuments(base, change, { ...change });
+    expect(merged.tagDefinitions).toEqual(change.tagDefinitions);
+    expect(merged.pinnedApps).toEqual([]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it("merges against an empty base and keeps the newer version", () => {
+    const { merged, conflicts } = mergeDocuments(
+      {},
+      { version: 5, tagDefinitions: { a: tag("a") }, tagOrder: ["a"] },
+      { version: 4, tagDefinitions: { b: tag("b") }, tagOrder: ["b"] },
+    );
+    expect(merged.version).toBe(5);
+    expect(merged.tagDefinitions).toEqual({ a: tag("a"), b: tag("b") });
+    expect(merged.tagOrder).toEqual(["b", "a"]);
+    expect(conflicts).toEqual([]);
+  });
+});
+
+describe("keepMinePatch", () => {
+  const conflict = (part: SyncConflict["part"], key: string, mine: unknown): SyncConflict => ({
+    part,
+    key,
+    mine,
+    theirs: null,
+    detectedAt: 0,
+  });
+
+  it("puts this machine's value or deletion back", () => {
+    expect(keepMinePatch(conflict("tagDefinitions", "a", tag("a")))).toEqual({ tagDefinitions: { a: tag("a") } });
+    expect(keepMinePatch(conflict("appTagExcludes", "com.slack", ["a"]))).toEqual({
+      appTagExcludes: { "com.slack": ["a"] },
+    });
+    expect(keepMinePatch(conflict("appDetails", "com.slack", null))).toEqual({ appDetails: { "com.slack": null } });
+  });
+
+  it("refuses values that don't fit their part", () => {
+    expect(() => keepMinePatch(conflict("tagDefinitions", "a", tag("b")))).toThrow(
+      'Invalid tagDefinitions value for "a"',
+    );
+    expect(() => keepMinePatch(conflict("appTags", "com.slack", "a"))).toThrow();
+    expect(() => keepMinePatch(conflict("appDetails", "com.slack", { aliases: "ps" }))).toThrow();
+  });
+});
+
+describe("createFileSyncBackend", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "launchpad-sync-"));
+    filePath = join(dir, "tags.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /** Adds a tag to the file, the way another machine would */
+  async function editFile(id: string) {
+    const doc = JSON.parse(await readFile(filePath, "utf8"));
+    doc.tagDefinitions[id] = tag(id);
+    doc.tagOrder.push(id);
+    await writeFile(filePath, JSON.stringify(doc, null, 2));
+  }
+
+  it("writes changes to the file and picks up edits made there", async () => {
+    const local = createMemoryBackend();
+    const store = createTagStore(createFileSyncBackend(filePath, local));
+    const { id } = await store.createTag({ name: "Work" });
+    expect(JSON.parse(await readFile(filePath, "utf8")).tagDefinitions[id].name).toBe("Work");
+
+    await editFile("remote");
+    const database = await store.load();
+    expect(Object.keys(database.tagDefinitions)).toEqual([id, "remote"]);
+  });
+
+  it("publishes and returns what the merge produced when the file changed during a write", async () => {
+    const local = createMemoryBackend();
+    const syncing = createFileSyncBackend(filePath, local);
+    let editBeforeWrite = false;
+    const backend: StorageBackend = {
+      ...syncing,
+      async setItem(key, value) {
+        if (key === DATABASE_KEY && editBeforeWrite) {
+          editBeforeWrite = false;
+          await editFile("remote");
+        }
+        await syncing.setItem(key, value);
+      },
+    };
+    const store = createTagStore(backend);
+    await store.createTag({ name: "Work" });
+
+    editBeforeWrite = true;
+    const { database, id } = await store.createTag({ name: "Games" });
+    expect(database.tagDefinitions.remote).toEqual(tag("remote"));
+    expect(store.snapshot()).toEqual(database);
+    expect(JSON.parse(local.items[DATABASE_KEY])).toEqual(database);
+    expect(database.tagDefinitions[id].name).toBe("Games");
+    expect(local.items[SYNC_CONFLICTS_KEY]).toBeUndefined();
+  });
+});
@@ -0,0 +1,321 @@
+import { getPreferenceValues, showToast, Toast } from "@raycast/api";
+import { createHash } from "crypto";
+import { watch } from "fs";
+import { readFile, rename, stat, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { basename, dirname, join } from "path";
+import { DATABASE_KEY, SYNC_CONFLICTS_KEY, SYNC_STATE_KEY } from "./constants";
+import { isAppDetails, isStringList, isTagDefinition } from "./database";
+import { localStorageBackend, StorageBackend } from "./storage";
+import { DatabasePatch, LaunchpadPreferences, SyncConflict, SyncRecordPart } from "./types";
+
+type Document = Record<string, unknown>;
+
+/** What this machine knows about the last successful sync */
+interface SyncState {
+  /** Hash and content of the database both sides last agreed on, the base of three-way merges */
+  hash?: string;
+  base?: string;
+  /** File stats at that point, so an unchanged file doesn't have to be read again */
+  mtimeMs?: number;
+  size?: number;
+  /** The last sync error, so it is only reported once */
+  error?: string;
+}
+
+const RECORD_PARTS: SyncRecordPart[] = ["tagDefinitions", "appTags", "appTagExcludes", "appDetails"];
+const LIST_PARTS = ["tagOrder", "hiddenApps", "pinnedApps", "ignoreRules", "quarantine"];
+
+function isRecord(value: unknown): value is Document {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    Merge                                   */
+/* -------------------------------------------------------------------------- */
+function mergeRecords(
+  part: SyncRecordPart,
+  base: unknown,
+  mine: unknown,
+  theirs: unknown,
+): { value: Document; conflicts: SyncConflict[] } {
+  const [b, m, t] = [base, mine, theirs].map((r) => (isRecord(r) ? r : {}));
+  const value: Document = {};
+  const conflicts: SyncConflict[] = [];
+  for (const key of new Set([...Object.keys(m), ...Object.keys(t)])) {
+    let merged = t[key];
+    if (!sameValue(m[key], t[key]) && !sameValue(b[key], m[key])) {
+      if (sameValue(b[key], t[key])) merged = m[key];
+      else conflicts.push({ part, key, mine: m[key] ?? null, theirs: t[key] ?? null, detectedAt: Date.now() });
+    }
+    if (merged !== undefined) value[key] = merged;
+  }
+  return { value, conflicts };
+}
+
+/** The file's list with this machine's additions appended and its removals applied */
+function mergeLists(base: unknown, mine: unknown, theirs: unknown): unknown[] {
+  const [b, m, t] = [base, mine, theirs].map((l) => (Array.isArray(l) ? l.map((item) => JSON.stringify(item)) : []));
+  const removed = b.filter((item) => !m.includes(item));
+  const added = m.filter((item) => !b.includes(item) && !t.includes(item));
+  return [...t.filter((item) => !removed.includes(item)), ...added].map((item) => JSON.parse(item));
+}
+
+/**
+ * Three-way merge of two database documents that both changed since `base`. A
+ * key changed on one side only takes that side's value. A key changed on both
+ * sides keeps the file's value and is reported as a conflict.
+ */
+export function mergeDocuments(
+  base: Document,
+  mine: Document,
+  theirs: Document,
+): { merged: Document; conflicts: SyncConflict[] } {
+  const merged: Document = { ...theirs };
+  const conflicts: SyncConflict[] = [];
+  for (const key of Object.keys(mine)) {
+    if (RECORD_PARTS.includes(key as SyncRecordPart) || LIST_PARTS.includes(key)) continue;
+    if (!sameValue(base[key], mine[key]) && sameValue(base[key], theirs[key])) merged[key] = mine[key];
+  }
+  merged.version = Math.max(Number(mine.version) || 0, Number(theirs.version) || 0);
+  for (const part of RECORD_PARTS) {
+    const { value, conflicts: partConflicts } = mergeRecords(part, base[part], mine[part], theirs[part]);
+    merged[part] = value;
+    conflicts.push(...partConflicts);
+  }
+  for (const part of LIST_PARTS) merged[part] = mergeLists(base[part], mine[part], theirs[part]);
+  return { merged, conflicts };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Conflicts                                  */
+/* -------------------------------------------------------------------------- */
+export async function loadSyncConflicts(local: StorageBackend = localStorageBackend): Promise<SyncConflict[]> {
+  const stored = await local.getItem(SYNC_CONFLICTS_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.error("Failed to parse sync conflicts:", err);
+    return [];
+  }
+}
+
+async function saveSyncConflicts(conflicts: SyncConflict[], local: StorageBackend): Promise<void> {
+  if (conflicts.length === 0) await local.removeItem(SYNC_CONFLICTS_KEY);
+  else await local.setItem(SYNC_CONFLICTS_KEY, JSON.stringify(conflicts));
+}
+
+const sameConflict = (a: SyncConflict, b: SyncConflict) => a.part === b.part && a.key === b.key;
+
+/** Drops a conflict from the list; the value to keep has to be written separately */
+export async function dismissSyncConflict(
+  conflict: SyncConflict,
+  local: StorageBackend = localStorageBackend,
+): Promise<void> {
+  await saveSyncConflicts(
+    (await loadSyncConflicts(local)).filter((c) => !sameConflict(c, conflict)),
+    local,
+  );
+}
+
+/**
+ * The patch that puts this machine's value back in place of the file's. Throws
+ * when the stored value doesn't fit its part, so a broken record can't be written.
+ */
+export function keepMinePatch({ part, key, mine }: SyncConflict): DatabasePatch {
+  const invalid = () => new Error(`Invalid ${part} value for "${key}"`);
+  switch (part) {
+    case "tagDefinitions":
+      if (mine !== null && !(isTagDefinition(mine) && mine.id === key)) throw invalid();
+      return { tagDefinitions: { [key]: mine } };
+    case "appTags":
+    case "appTagExcludes":
+      if (mine !== null && !isStringList(mine)) throw invalid();
+      return { [part]: { [key]: mine } };
+    case "appDetails":
+      if (mine !== null && !isAppDetails(mine)) throw invalid();
+      return { appDetails: { [key]: mine } };
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    File                                    */
+/* -------------------------------------------------------------------------- */
+function hashOf(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/** Compact JSON, so formatting differences between the file and LocalStorage don't count as changes */
+function canonical(content: string): string | undefined {
+  try {
+    return JSON.stringify(JSON.parse(content));
+  } catch {
+    return undefined;
+  }
+}
+
+async function loadSyncState(local: StorageBackend): Promise<SyncState> {
+  try {
+    return JSON.parse((await local.getItem(SYNC_STATE_KEY)) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** Written next to the target and renamed over it, so other machines never read half a file */
+async function writeSyncFile(filePath: string, content: string): Promise<{ mtimeMs: number; size: number }> {
+  const temp = join(dirname(filePath), `.${basename(filePath)}.${process.pid}.tmp`);
+  await writeFile(temp, `${JSON.stringify(JSON.parse(content), null, 2)}\n`);
+  await rename(temp, filePath);
+  const { mtimeMs, size } = await stat(filePath);
+  return { mtimeMs, size };
+}
+
+async function reportError(local: StorageBackend, state: SyncState, error: string): Promise<void> {
+  console.error("Tag sync failed:", error);
+  if (state.error === error) return;
+  await local.setItem(SYNC_STATE_KEY, JSON.stringify({ ...state, error }));
+  await showToast({ style: Toast.Style.Failure, title: "Sync Failed", message: `${error}. Changes are kept locally.` });
+}
+
+/**
+ * Brings LocalStorage and the sync file up to date with each other. A side that
+ * didn't change since the last sync takes the other side's content; when both
+ * changed they are merged. While the file can't be read or written, everything
+ * keeps working on LocalStorage and is merged in on the next successful sync.
+ */
+export async function syncWithFile(filePath: string, local: StorageBackend = localStorageBackend): Promise<void> {
+  const state = await loadSyncState(local);
+  const stored = await local.getItem(DATABASE_KEY);
+  const mine = stored === undefined ? undefined : canonical(stored);
+  if (stored !== undefined && mine === undefined) {
+    // Left for loadDatabase to quarantine; it saves a clean database that syncs next time.
+    return;
+  }
+
+  let theirs: string | undefined;
+  let fileStats: { mtimeMs: number; size: number } | undefined;
+  try {
+    const { mtimeMs, size } = await stat(filePath);
+    fileStats = { mtimeMs, size };
+    const unchanged = state.base !== undefined && state.mtimeMs === mtimeMs && state.size === size;
+    const content = unchanged ? state.base : canonical(await readFile(filePath, "utf8"));
+    if (content === undefined) {
+      await reportError(local, state, `${basename(filePath)} is not valid JSON and was left untouched`);
+      return;
+    }
+    theirs = content;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      await reportError(local, state, `Could not read ${basename(filePath)}`);
+      return;
+    }
+  }
+
+  const mineChanged = mine !== undefined && hashOf(mine) !== state.hash;
+  const theirsChanged = theirs !== undefined && hashOf(theirs) !== state.hash;
+  let agreed: string | undefined;
+  let conflicts: SyncConflict[] = [];
+
+  if (theirs === undefined || (!theirsChanged && mineChanged)) {
+    agreed = mine;
+  } else if (!mineChanged) {
+    agreed = theirs;
+    if (theirsChanged) await local.setItem(DATABASE_KEY, theirs);
+  } else {
+    const base = state.base ? JSON.parse(state.base) : {};
+    const result = mergeDocuments(base, JSON.parse(mine!), JSON.parse(theirs));
+    agreed = JSON.stringify(result.merged);
+    conflicts = result.conflicts;
+    await local.setItem(DATABASE_KEY, agreed);
+  }
+  if (agreed === undefined) return;
+
+  try {
+    if (agreed !== theirs) fileStats = await writeSyncFile(filePath, agreed);
+  } catch {
+    await reportError(local, state, `Could not write ${basename(filePath)}`);
+    return;
+  }
+
+  const next: SyncState = { hash: hashOf(agreed), base: agreed, ...fileStats };
+  if (!sameValue(next, state)) await local.setItem(SYNC_STATE_KEY, JSON.stringify(next));
+  if (conflicts.length > 0) {
+    const existing = (await loadSyncConflicts(local)).filter((c) => !conflicts.some((n) => sameConflict(c, n)));
+    await saveSyncConflicts([...existing, ...conflicts], local);
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Sync Conflicts",
+      message: `${conflicts.length} change(s) were made both here and in ${basename(filePath)}`,
+    });
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Backend                                  */
+/* -------------------------------------------------------------------------- */
+/**
+ * Keeps the tag database in `filePath` as the source of truth, with LocalStorage
+ * as the working copy. Every other key (history, view settings) stays local.
+ */
+export function createFileSyncBackend(filePath: string, local: StorageBackend = localStorageBackend): StorageBackend {
+  return {
+    async getItem(key) {
+      if (key === DATABASE_KEY) await syncWithFile(filePath, local);
+      return local.getItem(key);
+    },
+    async setItem(key, value) {
+      await local.setItem(key, value);
+      if (key === DATABASE_KEY) await syncWithFile(filePath, local);
+    },
+    removeItem: (key) => local.removeItem(key),
+    async allItems() {
+      await syncWithFile(filePath, local);
+      return local.allItems();
+    },
+  };
+}
+
+/** The sync file from preferences with `~` expanded, `undefined` when syncing is off */
+export function getSyncFilePath(): string | undefined {
+  const { syncFile } = getPreferenceValues<LaunchpadPreferences>();
+  return syncFile?.trim() ? syncFile.trim().replace(/^~(?=$|\/)/, homedir()) : undefined;
+}
+
+/** The file sync backend when a sync file is set, LocalStorage otherwise */
+export function preferredStorageBackend(): StorageBackend {
+  const filePath = getSyncFilePath();
+  return filePath ? createFileSyncBackend(filePath) : localStorageBackend;
+}
+
+/**
+ * Calls `onChange` shortly after the sync file changes on disk. The folder is
+ * watched rather than the file, since sync tools usually replace files instead
+ * of writing into them. Returns a function that stops watching.
+ */
+export function watchSyncFile(onChange: () => void): () => void {
+  const filePath = getSyncFilePath();
+  if (!filePath) return () => undefined;
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const watcher = watch(dirname(filePath), (_event, name) => {
+      if (name !== basename(filePath)) return;
+      clearTimeout(timer);
+      timer = setTimeout(onChange, 300);
+    });
+    watcher.on("error", (err) => console.error("Stopped watching sync file:", err));
+    return () => {
+      clearTimeout(timer);
+      watcher.close();
+    };
+  } catch (err) {
+    console.error("Could not watch sync file:", err);
+    return () => undefined;
+  }
+}
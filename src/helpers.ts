@@ -1,9 +1,13 @@
-import { LocalStorage } from "@raycast/api";
-import { showFailureToast } from "@raycast/utils";
-import EventEmitter from "events";
-import { REFRESH_KEY, TAG_DEFINITIONS_KEY, TAG_ORDER_KEY } from "./constants";
+import { Application, launchCommand, LaunchType } from "@raycast/api";
+import { ALL_APPS_FILTER, UNTAGGED_FILTER } from "./constants";
+import { flattenTagTree, getDescendantTagIds, getTagColor } from "./tags";
 import { AppTags, TagDefinitions } from "./types";
 
+/** The key an app's tags, details and launches are stored under */
+export function appKey(app: Application): string {
+  return app.bundleId ?? app.path;
+}
+
 export function generateId(): string {
   return `tag_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
@@ -18,58 +22,60 @@ export function isValidHexColor(color: string): boolean {
   return /^#[0-9A-F]{6}$/i.test(color);
 }
 
-export async function loadStoredTags(): Promise<{
-  tags: AppTags;
-  tagDefinitions: TagDefinitions;
-  tagOrder: string[];
-}> {
-  const stored = await LocalStorage.allItems();
-  const parsedTags: AppTags = {};
-  let definitions: TagDefinitions = {};
-  let order: string[] = [];
-
-  const handleParseError = async (key: string, error: unknown) => {
-    console.error(`Failed to parse stored item "${key}":`, error);
-    await showFailureToast({
-      title: "Data Error",
-      message: `Could not load stored data for key: ${key}`,
-    });
-  };
-
-  if (stored[TAG_DEFINITIONS_KEY]) {
-    try {
-      definitions = JSON.parse(stored[TAG_DEFINITIONS_KEY] as string);
-    } catch (err) {
-      await handleParseError(TAG_DEFINITIONS_KEY, err);
-    }
-  }
+function isUntagged(app: Application, tags: AppTags, tagDefinitions: TagDefinitions): boolean {
+  return (tags[appKey(app)] ?? []).every((id) => !tagDefinitions[id]);
+}
 
-  if (stored[TAG_ORDER_KEY]) {
-    try {
-      order = JSON.parse(stored[TAG_ORDER_KEY] as string);
-    } catch (err) {
-      await handleParseError(TAG_ORDER_KEY, err);
-    }
-  }
+/** Applies the tag filter dropdown; a tag also matches apps tagged with its children */
+export function filterAppsByTag(
+  apps: Application[],
+  filter: string,
+  tags: AppTags,
+  tagDefinitions: TagDefinitions,
+): Application[] {
+  if (filter === ALL_APPS_FILTER) return apps;
+  if (filter === UNTAGGED_FILTER) return apps.filter((app) => isUntagged(app, tags, tagDefinitions));
+  if (!tagDefinitions[filter]) return apps;
+  const tagIds = [filter, ...getDescendantTagIds(filter, tagDefinitions)];
+  return apps.filter((app) => (tags[appKey(app)] ?? []).some((id) => tagIds.includes(id)));
+}
 
-  for (const [key, value] of Object.entries(stored)) {
-    if ([TAG_DEFINITIONS_KEY, TAG_ORDER_KEY, REFRESH_KEY].includes(key)) continue;
-    try {
-      const parsed = JSON.parse(value as string);
-      if (Array.isArray(parsed)) parsedTags[key] = parsed;
-    } catch (err) {
-      await handleParseError(key, err);
-    }
-  }
+export interface AppSection {
+  id: string;
+  title: string;
+  color?: string;
+  apps: Application[];
+}
 
-  const allTagIds = Object.keys(definitions);
-  if (order.length === 0) order = allTagIds;
-  else order = [...order.filter((id) => allTagIds.includes(id)), ...allTagIds.filter((id) => !order.includes(id))];
+/**
+ * One section per tag (tree order), plus a trailing "Untagged" section. Apps with
+ * several tags show up in each of their sections.
+ */
+export function groupAppsByTag(
+  apps: Application[],
+  tags: AppTags,
+  tagDefinitions: TagDefinitions,
+  tagOrder: string[],
+): AppSection[] {
+  const sections: AppSection[] = flattenTagTree(tagDefinitions, tagOrder)
+    .map(({ def, path }) => ({
+      id: def.id,
+      title: path,
+      color: getTagColor(def.id, tagDefinitions),
+      apps: apps.filter((app) => (tags[appKey(app)] ?? []).includes(def.id)),
+    }))
+    .filter((section) => section.apps.length > 0);
 
-  return { tags: parsedTags, tagDefinitions: definitions, tagOrder: order };
+  const untagged = apps.filter((app) => (tags[appKey(app)] ?? []).every((id) => !tagDefinitions[id]));
+  if (untagged.length > 0) sections.push({ id: UNTAGGED_FILTER, title: "Untagged", apps: untagged });
+  return sections;
 }
 
-/* -------------------------------------------------------------------------- */
-/*                              Global Event Bus                              */
-/* -------------------------------------------------------------------------- */
-export const TagEvents = new EventEmitter();
+/** Re-runs the menu bar command so it shows tag changes right away */
+export async function refreshMenuBar(): Promise<void> {
+  try {
+    await launchCommand({ name: "menu-bar", type: LaunchType.Background });
+  } catch {
+    // The menu bar command is disabled.
+  }
+}
@@ -0,0 +1,23 @@
+import { Application } from "@raycast/api";
+import { appKey } from "./helpers";
+import { ruleMatches } from "./smart-tags";
+import { HiddenReason, TagDatabase } from "./types";
+
+type HiddenState = Pick<TagDatabase, "hiddenApps" | "ignoreRules">;
+
+/** Why the app is hidden, or `undefined` when it is shown */
+export function getHiddenReason(app: Application, { hiddenApps, ignoreRules }: HiddenState): HiddenReason | undefined {
+  if (hiddenApps.includes(appKey(app))) return { type: "manual" };
+  const rule = ignoreRules.find((r) => ruleMatches(r, app));
+  return rule ? { type: "rule", rule } : undefined;
+}
+
+export function isAppHidden(app: Application, state: HiddenState): boolean {
+  return getHiddenReason(app, state) !== undefined;
+}
+
+/** Leaves out every hidden app; apps are only ever opened or listed from what's left */
+export function withoutHiddenApps(apps: Application[], state: HiddenState): Application[] {
+  if (state.hiddenApps.length === 0 && state.ignoreRules.length === 0) return apps;
+  return apps.filter((app) => !isAppHidden(app, state));
+}
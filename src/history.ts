@@ -0,0 +1,167 @@
+import { HISTORY_KEY } from "./constants";
+import { updateDatabase } from "./database";
+import { localStorageBackend, StorageBackend } from "./storage";
+import { AppDetailsMap, AppTags, DatabasePatch, TagDatabase, TagDefinitions, TagOperation } from "./types";
+
+/** Older operations are dropped so the history can't fill up storage */
+const MAX_OPERATIONS = 50;
+
+function newOperationId(): string {
+  return `op_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Patches                                  */
+/* -------------------------------------------------------------------------- */
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** The previous value of every key that differs, `null` for keys `after` added */
+function diffRecord<T>(before: Record<string, T>, after: Record<string, T>): Record<string, T | null> | undefined {
+  const diff: Record<string, T | null> = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (!sameValue(before[key], after[key])) diff[key] = before[key] ?? null;
+  }
+  return Object.keys(diff).length > 0 ? diff : undefined;
+}
+
+function patchRecord<T>(record: Record<string, T>, patch: Record<string, T | null> | undefined): Record<string, T> {
+  if (!patch) return record;
+  const next = { ...record };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete next[key];
+    else next[key] = value;
+  }
+  return next;
+}
+
+/** The patch that turns `after` back into `before`; `undefined` when nothing changed */
+export function invertChange(before: TagDatabase, after: TagDatabase): DatabasePatch | undefined {
+  const patch: DatabasePatch = {
+    tagDefinitions: diffRecord(before.tagDefinitions, after.tagDefinitions),
+    tagOrder: sameValue(before.tagOrder, after.tagOrder) ? undefined : before.tagOrder,
+    appTags: diffRecord(before.appTags, after.appTags),
+    appTagExcludes: diffRecord(before.appTagExcludes, after.appTagExcludes),
+    appDetails: diffRecord(before.appDetails, after.appDetails),
+    hiddenApps: sameValue(before.hiddenApps, after.hiddenApps) ? undefined : before.hiddenApps,
+    ignoreRules: sameValue(before.ignoreRules, after.ignoreRules) ? undefined : before.ignoreRules,
+    pinnedApps: sameValue(before.pinnedApps, after.pinnedApps) ? undefined : before.pinnedApps,
+  };
+  return Object.values(patch).some((part) => part !== undefined) ? patch : undefined;
+}
+
+/**
+ * Writes a patch back into the database. Only the keys the operation touched are
+ * restored, so unrelated changes made since then are kept.
+ */
+export function applyPatch(db: TagDatabase, patch: DatabasePatch): TagDatabase {
+  const tagDefinitions: TagDefinitions = patchRecord(db.tagDefinitions, patch.tagDefinitions);
+  const appTags: AppTags = patchRecord(db.appTags, patch.appTags);
+  const appTagExcludes: AppTags = patchRecord(db.appTagExcludes, patch.appTagExcludes);
+  const appDetails: AppDetailsMap = patchRecord(db.appDetails, patch.appDetails);
+  // Tags created since the operation stay in the order, at the end.
+  const order = patch.tagOrder ?? db.tagOrder;
+  const tagOrder = [
+    ...order.filter((id) => tagDefinitions[id]),
+    ...Object.keys(tagDefinitions).filter((id) => !order.includes(id)),
+  ];
+  return {
+    ...db,
+    tagDefinitions,
+    tagOrder,
+    appTags,
+    appTagExcludes,
+    appDetails,
+    hiddenApps: patch.hiddenApps ?? db.hiddenApps,
+    ignoreRules: patch.ignoreRules ?? db.ignoreRules,
+    pinnedApps: patch.pinnedApps ?? db.pinnedApps,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Storage                                   */
+/* -------------------------------------------------------------------------- */
+export async function loadHistory(backend: StorageBackend = localStorageBackend): Promise<TagOperation[]> {
+  const stored = await backend.getItem(HISTORY_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (op): op is TagOperation =>
+            typeof op?.id === "string" && typeof op.label === "string" && typeof op.inverse === "object",
+        )
+      : [];
+  } catch (err) {
+    console.error("Failed to parse tag history:", err);
+    return [];
+  }
+}
+
+async function saveHistory(history: TagOperation[], backend: StorageBackend): Promise<void> {
+  await backend.setItem(HISTORY_KEY, JSON.stringify(history.slice(0, MAX_OPERATIONS)));
+}
+
+export async function clearHistory(backend: StorageBackend = localStorageBackend): Promise<void> {
+  await backend.removeItem(HISTORY_KEY);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              Record / Undo                                 */
+/* -------------------------------------------------------------------------- */
+/**
+ * Runs `update` like `updateDatabase` and records how to reverse it. No operation
+ * is recorded when the update didn't change anything.
+ *
+ * `onSaved` runs as soon as the database is written, before the history is. The
+ * change is applied at that point even if recording it fails afterwards.
+ */
+export async function updateDatabaseWithHistory(
+  label: string | ((before: TagDatabase) => string),
+  update: (db: TagDatabase) => TagDatabase,
+  backend: StorageBackend = localStorageBackend,
+  onSaved?: (database: TagDatabase, operation?: TagOperation) => void,
+): Promise<{ database: TagDatabase; operation?: TagOperation }> {
+  let before: TagDatabase | undefined;
+  const database = await updateDatabase((db) => {
+    before = db;
+    return update(db);
+  }, backend);
+  const inverse = before && invertChange(before, database);
+  if (!before || !inverse) {
+    onSaved?.(database);
+    return { database };
+  }
+
+  const operation: TagOperation = {
+    id: newOperationId(),
+    label: typeof label === "string" ? label : label(before),
+    timestamp: Date.now(),
+    inverse,
+  };
+  onSaved?.(database, operation);
+  await saveHistory([operation, ...(await loadHistory(backend))], backend);
+  return { database, operation };
+}
+
+/**
+ * Reverses the most recent operations, newest first, up to and including
+ * `operationId`. Returns the restored database and the operations that were undone.
+ */
+export async function undoOperations(
+  operationId: string,
+  backend: StorageBackend = localStorageBackend,
+): Promise<{ database: TagDatabase; undone: TagOperation[] } | undefined> {
+  const history = await loadHistory(backend);
+  const index = history.findIndex((op) => op.id === operationId);
+  if (index === -1) return undefined;
+
+  const undone = history.slice(0, index + 1);
+  const database = await updateDatabase(
+    (db) => undone.reduce((current, op) => applyPatch(current, op.inverse), db),
+    backend,
+  );
+  await saveHistory(history.slice(index + 1), backend);
+  return { database, undone };
+}
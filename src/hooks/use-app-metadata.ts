@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { AppMetadataCache, appMetadataCache } from "../app-metadata";
+import { AppBundleInfo } from "../types";
+
+interface LoadedMetadata {
+  appPath: string;
+  info?: AppBundleInfo;
+  sizeBytes?: number;
+  done: boolean;
+}
+
+/**
+ * Bundle metadata of the app at `appPath`. The Info.plist fields arrive first;
+ * `sizeBytes` follows once `du` is done, which can take a moment for big apps.
+ */
+export function useAppMetadata(
+  appPath: string | undefined,
+  { cache = appMetadataCache }: { cache?: AppMetadataCache } = {},
+): { info?: AppBundleInfo; sizeBytes?: number; isLoading: boolean } {
+  const [loaded, setLoaded] = useState<LoadedMetadata>();
+
+  useEffect(() => {
+    if (!appPath) return;
+    // Results for an app that is no longer selected are dropped.
+    let current = true;
+    const update = (next: Partial<LoadedMetadata>) => {
+      if (current) setLoaded((previous) => ({ ...previous, ...next, appPath, done: next.done ?? false }));
+    };
+    (async () => {
+      update({ info: undefined, sizeBytes: undefined });
+      try {
+        update({ info: await cache.getInfo(appPath) });
+        update({ sizeBytes: await cache.getSize(appPath) });
+      } catch (err) {
+        console.error(`Failed to read metadata of ${appPath}`, err);
+      } finally {
+        update({ done: true });
+      }
+    })();
+    return () => {
+      current = false;
+    };
+  }, [appPath, cache]);
+
+  // Until the effect has run for a new app, `loaded` still belongs to the previous one.
+  if (!appPath) return { isLoading: false };
+  if (loaded?.appPath !== appPath) return { isLoading: true };
+  return { info: loaded.info, sizeBytes: loaded.sizeBytes, isLoading: !loaded.done };
+}
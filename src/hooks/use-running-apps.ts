@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from "react";
+import { getRunningApps } from "../app-control";
+
+const REFRESH_INTERVAL_MS = 3000;
+
+/** Bundle id → pid of every running app, refreshed while the view is open */
+export function useRunningApps(): { running: Map<string, number>; refresh: () => Promise<void> } {
+  const [running, setRunning] = useState<Map<string, number>>(new Map());
+
+  const refresh = useCallback(async () => {
+    try {
+      setRunning(await getRunningApps());
+    } catch (err) {
+      console.error("Failed to list running apps", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return { running, refresh };
+}
@@ -0,0 +1,33 @@
+import { useEffect, useRef, useState } from "react";
+import { emptyDatabase } from "../database";
+import { TagStateChange, tagStore, TagStore } from "../tag-store";
+import { TagDatabase } from "../types";
+
+const EMPTY_DATABASE = emptyDatabase();
+
+/**
+ * The shared tag state. Every view using this hook re-renders as soon as any
+ * view changes tags; `onChange` also receives which parts changed.
+ */
+export function useTagState({
+  store = tagStore,
+  onChange,
+}: { store?: TagStore; onChange?: (change: TagStateChange) => void } = {}): {
+  database: TagDatabase;
+  isLoading: boolean;
+} {
+  const [database, setDatabase] = useState(() => store.snapshot());
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const unsubscribe = store.subscribe((change) => {
+      setDatabase(change.database);
+      onChangeRef.current?.(change);
+    });
+    store.load().catch((err) => console.error("Failed to load tags:", err));
+    return unsubscribe;
+  }, [store]);
+
+  return { database: database ?? EMPTY_DATABASE, isLoading: !database };
+}
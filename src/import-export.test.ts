@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { emptyDatabase } from "./database";
+import { applyImport, exportTags, parseImport } from "./import-export";
+import { TagDatabase } from "./types";
+
+function database(): TagDatabase {
+  return {
+    ...emptyDatabase(),
+    tagDefinitions: {
+      work: { id: "work", name: "Work", color: "#ff0000" },
+      design: { id: "design", name: "Design", parentId: "work" },
+      games: { id: "games", name: "Games, Fun" },
+    },
+    tagOrder: ["work", "design", "games"],
+    appTags: { "com.figma.Desktop": ["design", "games"], "com.slack": ["work"] },
+  };
+}
+
+describe("CSV export", () => {
+  it("writes one row per app with its tag paths", () => {
+    expect(exportTags(database(), "csv")).toBe(
+      'app,tags\ncom.figma.Desktop,"Work/Design; Games, Fun"\ncom.slack,Work\n',
+    );
+  });
+
+  it("imports back into the same tags and assignments", () => {
+    const { data, errors } = parseImport(exportTags(database(), "csv"));
+    expect(errors).toEqual([]);
+
+    let n = 0;
+    const imported = applyImport(database(), data!, "replace", () => `new_${n++}`);
+    // Matched by path, so every tag keeps its id.
+    expect(Object.keys(imported.tagDefinitions).sort()).toEqual(["design", "games", "work"]);
+    expect(imported.appTags).toEqual(database().appTags);
+  });
+});
+
+describe("JSON import", () => {
+  it("round-trips an export", () => {
+    const { data, errors } = parseImport(exportTags(database(), "json"));
+    expect(errors).toEqual([]);
+    expect(data?.tags.map((tag) => tag.path)).toEqual(["Work", "Work/Design", "Games, Fun"]);
+  });
+
+  it("rejects tag names that contain a separator", () => {
+    const db = database();
+    db.tagDefinitions.games = { id: "games", name: "R&D; Ops" };
+    expect(parseImport(exportTags(db, "json")).errors).toEqual(['Tag "R&D; Ops" contains ";"']);
+  });
+
+  it("drops shortcuts that aren't a single letter or digit", () => {
+    const db = database();
+    db.tagDefinitions.work = { ...db.tagDefinitions.work, shortcut: "ab" };
+    db.tagDefinitions.games = { ...db.tagDefinitions.games, shortcut: "g" };
+    const { data } = parseImport(exportTags(db, "json"));
+    expect(data?.tags.map((tag) => tag.def.shortcut)).toEqual([undefined, undefined, "g"]);
+  });
+});
+
+describe("applyImport", () => {
+  it("drops invalid and taken shortcuts", () => {
+    const db = { ...database(), tagDefinitions: { ...database().tagDefinitions } };
+    db.tagDefinitions.work = { ...db.tagDefinitions.work, shortcut: "w" };
+    let n = 0;
+    const imported = applyImport(
+      db,
+      {
+        format: "json",
+        tags: [
+          { path: "Music", def: { name: "Music", shortcut: "Z" } },
+          { path: "Writing", def: { name: "Writing", shortcut: "w" } },
+          { path: "Video", def: { name: "Video", shortcut: "v" } },
+        ],
+        appTags: {},
+        appTagExcludes: {},
+      },
+      "merge",
+      () => `new_${n++}`,
+    );
+    expect(["new_0", "new_1", "new_2"].map((id) => imported.tagDefinitions[id].shortcut)).toEqual([
+      undefined,
+      undefined,
+      "v",
+    ]);
+  });
+});
@@ -0,0 +1,356 @@
+import { existsSync } from "fs";
+import { writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { DATABASE_VERSION } from "./constants";
+import { sanitizeDatabase } from "./database";
+import { generateId, randomColor } from "./helpers";
+import {
+  cleanTagName,
+  findShortcutOwner,
+  flattenTagTree,
+  isValidTagShortcut,
+  TAG_LIST_SEPARATOR,
+  TAG_PATH_SEPARATOR,
+} from "./tags";
+import {
+  AppTags,
+  ExportFormat,
+  ImportMode,
+  ImportSummary,
+  TagDatabase,
+  TagDefinition,
+  TagDefinitions,
+  TagImport,
+} from "./types";
+
+/** Marks a JSON file as a tag export, so a random JSON file is not mistaken for one */
+const EXPORT_MARKER = "launchpad-plus-tags";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Export                                   */
+/* -------------------------------------------------------------------------- */
+/** Tag lists without ids of deleted tags, and without the apps left empty by that */
+function withKnownTags(appTags: AppTags, tagDefinitions: TagDefinitions): AppTags {
+  return Object.fromEntries(
+    Object.entries(appTags)
+      .map(([key, tagIds]) => [key, tagIds.filter((id) => tagDefinitions[id])] as const)
+      .filter(([, tagIds]) => tagIds.length > 0),
+  );
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * JSON keeps everything needed to restore the tags exactly, CSV only has one row
+ * per app with its tag paths, e.g. `com.figma.Desktop,Work/Design; Favorites`.
+ */
+export function exportTags(db: TagDatabase, format: ExportFormat): string {
+  const { tagDefinitions, tagOrder } = db;
+  const appTags = withKnownTags(db.appTags, tagDefinitions);
+  if (format === "json") {
+    return JSON.stringify(
+      {
+        app: EXPORT_MARKER,
+        version: DATABASE_VERSION,
+        exportedAt: new Date().toISOString(),
+        tagDefinitions,
+        tagOrder,
+        appTags,
+        appTagExcludes: withKnownTags(db.appTagExcludes, tagDefinitions),
+      },
+      null,
+      2,
+    );
+  }
+
+  const paths = new Map(flattenTagTree(tagDefinitions, tagOrder).map(({ def, path }) => [def.id, path]));
+  const rows = Object.entries(appTags).map(([key, tagIds]) =>
+    [key, tagIds.map((id) => paths.get(id)).join(`${TAG_LIST_SEPARATOR} `)].map(csvField).join(","),
+  );
+  return ["app,tags", ...rows].join("\n") + "\n";
+}
+
+/** Writes the export to the Downloads folder and returns its path; never overwrites an older export */
+export async function saveExport(content: string, format: ExportFormat): Promise<string> {
+  const base = join(homedir(), "Downloads", `launchpad-tags-${new Date().toISOString().slice(0, 10)}`);
+  let filePath = `${base}.${format}`;
+  for (let n = 2; existsSync(filePath); n++) filePath = `${base}-${n}.${format}`;
+  await writeFile(filePath, content, "utf8");
+  return filePath;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Parsing                                  */
+/* -------------------------------------------------------------------------- */
+/** A path with every name cleaned, so ` work / design` and `Work/Design` match when lowercased */
+function cleanTagPath(path: string): string {
+  return path.split(TAG_PATH_SEPARATOR).map(cleanTagName).join(TAG_PATH_SEPARATOR);
+}
+
+function pathKey(path: string): string {
+  return cleanTagPath(path).toLowerCase();
+}
+
+function parentPath(path: string): string | undefined {
+  const index = path.lastIndexOf(TAG_PATH_SEPARATOR);
+  return index === -1 ? undefined : path.slice(0, index);
+}
+
+/** Everything a tag carries except what ties it to one database */
+function withoutIds(def: TagDefinition): TagImport["tags"][number]["def"] {
+  const copy: Partial<TagDefinition> = { ...def };
+  delete copy.id;
+  delete copy.parentId;
+  return copy as TagImport["tags"][number]["def"];
+}
+
+/** Reads a JSON export (or a whole tag database, e.g. a sync file) or a CSV export, detected by content */
+export function parseImport(text: string): { data?: TagImport; errors: string[] } {
+  const trimmed = text.trim();
+  if (!trimmed) return { errors: ["Nothing to import"] };
+  return trimmed.startsWith("{") ? parseJsonImport(trimmed) : parseCsvImport(trimmed);
+}
+
+function parseJsonImport(text: string): { data?: TagImport; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    return { errors: [`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  if (typeof parsed !== "object" || parsed === null || !("tagDefinitions" in parsed)) {
+    return { errors: ["Not a tag export: tagDefinitions is missing"] };
+  }
+
+  const { database, quarantined } = sanitizeDatabase({ ...parsed, version: DATABASE_VERSION });
+  const errors = quarantined.map((entry) => `${entry.key}: ${entry.reason}`);
+  const { tagDefinitions, tagOrder } = database;
+
+  const tree = flattenTagTree(tagDefinitions, tagOrder);
+  const seen = new Set<string>();
+  for (const { def, path } of tree) {
+    const reserved = [TAG_PATH_SEPARATOR, TAG_LIST_SEPARATOR].find((separator) => def.name.includes(separator));
+    if (reserved) errors.push(`Tag "${def.name}" contains "${reserved}"`);
+    else if (seen.has(pathKey(path))) errors.push(`Tag "${path}" exists more than once`);
+    seen.add(pathKey(path));
+  }
+
+  const paths = new Map(tree.map(({ def, path }) => [def.id, path]));
+  const toPaths = (appTags: AppTags) =>
+    Object.fromEntries(
+      Object.entries(appTags).map(([key, tagIds]) => {
+        for (const id of tagIds.filter((id) => !paths.has(id))) errors.push(`${key}: unknown tag id ${id}`);
+        return [key, tagIds.flatMap((id) => paths.get(id) ?? [])];
+      }),
+    );
+  const data: TagImport = {
+    format: "json",
+    tags: tree.map(({ def, path }) => ({ path, def: withoutIds(def) })),
+    appTags: toPaths(database.appTags),
+    appTagExcludes: toPaths(database.appTagExcludes),
+  };
+  return errors.length > 0 ? { errors } : { data, errors };
+}
+
+/** RFC 4180 rows: quoted fields may contain commas, line breaks and `""` for a quote */
+function parseCsvRows(text: string): { rows: string[][]; error?: string } {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      rows.push([...row, field]);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) return { rows, error: `Row ${rows.length + 1}: missing closing quote` };
+  rows.push([...row, field]);
+  return { rows };
+}
+
+function parseCsvImport(text: string): { data?: TagImport; errors: string[] } {
+  const { rows, error } = parseCsvRows(text);
+  if (error) return { errors: [error] };
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const appColumn = header.indexOf("app");
+  const tagsColumn = header.indexOf("tags");
+  if (appColumn === -1 || tagsColumn === -1) return { errors: ['The first row needs an "app" and a "tags" column'] };
+
+  const errors: string[] = [];
+  const tags = new Map<string, string>();
+  const appTags: TagImport["appTags"] = {};
+  rows.slice(1).forEach((cells, index) => {
+    if (cells.every((cell) => !cell.trim())) return;
+    const app = cells[appColumn]?.trim();
+    if (!app) {
+      errors.push(`Row ${index + 2}: no app`);
+      return;
+    }
+    const paths = (cells[tagsColumn] ?? "")
+      .split(TAG_LIST_SEPARATOR)
+      .map(cleanTagPath)
+      .filter((path) => path);
+    for (const path of paths) {
+      if (path.split(TAG_PATH_SEPARATOR).some((name) => !name)) {
+        errors.push(`Row ${index + 2}: "${path}" has an empty tag name`);
+        continue;
+      }
+      // Ancestors first, so every tag's parent exists by the time the tag is created.
+      const names = path.split(TAG_PATH_SEPARATOR);
+      names.forEach((_, depth) => {
+        const ancestor = names.slice(0, depth + 1).join(TAG_PATH_SEPARATOR);
+        if (!tags.has(pathKey(ancestor))) tags.set(pathKey(ancestor), ancestor);
+      });
+      const current = appTags[app] ?? [];
+      if (!current.some((existing) => pathKey(existing) === pathKey(path))) appTags[app] = [...current, path];
+    }
+  });
+  if (errors.length > 0) return { errors };
+
+  return {
+    data: {
+      format: "csv",
+      tags: [...tags.values()].map((path) => ({
+        path,
+        def: { name: path.slice(path.lastIndexOf(TAG_PATH_SEPARATOR) + 1) },
+      })),
+      appTags,
+      appTagExcludes: {},
+    },
+    errors,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Import                                   */
+/* -------------------------------------------------------------------------- */
+/**
+ * Applies an import to a database. Tags are matched to existing ones by path,
+ * ignoring case and extra spaces; unmatched tags are created.
+ *
+ * - `merge` keeps existing tags as they are and adds the imported assignments to the current ones
+ * - `replace` leaves only the imported tags and assignments; matched tags keep their id, so
+ *   history and quicklinks still work. A CSV has no colors or rules, so matched tags keep theirs.
+ *
+ * App details, hidden apps and Favorites are never touched.
+ */
+export function applyImport(
+  db: TagDatabase,
+  data: TagImport,
+  mode: ImportMode,
+  newId: () => string = generateId,
+): TagDatabase {
+  const existing = new Map(flattenTagTree(db.tagDefinitions, db.tagOrder).map(({ def, path }) => [pathKey(path), def]));
+  const tagDefinitions: TagDefinitions = mode === "merge" ? { ...db.tagDefinitions } : {};
+  const tagOrder = mode === "merge" ? [...db.tagOrder] : [];
+  const ids = new Map<string, string>();
+  if (mode === "merge") for (const [key, def] of existing) ids.set(key, def.id);
+
+  for (const { path, def } of data.tags) {
+    const key = pathKey(path);
+    if (ids.has(key)) continue;
+    const match = existing.get(key);
+    const parent = parentPath(key);
+    const parentId = parent === undefined ? undefined : ids.get(parent);
+    const id = match?.id ?? newId();
+    const base: Partial<TagDefinition> = data.format === "csv" && match ? match : {};
+    const imported: TagDefinition = { ...base, ...def, id, parentId };
+    if (
+      imported.shortcut !== undefined &&
+      (!isValidTagShortcut(imported.shortcut) || findShortcutOwner(imported.shortcut, tagDefinitions, id))
+    ) {
+      imported.shortcut = undefined;
+    }
+    if (!imported.color && !parentId) imported.color = randomColor();
+    tagDefinitions[id] = imported;
+    tagOrder.push(id);
+    ids.set(key, id);
+  }
+
+  const resolve = (current: AppTags, imported: TagImport["appTags"]) => {
+    const result: AppTags = mode === "merge" ? { ...current } : {};
+    for (const [app, paths] of Object.entries(imported)) {
+      const tagIds = paths.flatMap((path) => ids.get(pathKey(path)) ?? []);
+      const merged = [...new Set([...(result[app] ?? []), ...tagIds])];
+      if (merged.length > 0) result[app] = merged;
+    }
+    return result;
+  };
+
+  return {
+    ...db,
+    tagDefinitions,
+    tagOrder,
+    appTags: resolve(db.appTags, data.appTags),
+    appTagExcludes: resolve(db.appTagExcludes, data.appTagExcludes),
+  };
+}
+
+export function summarizeImport(before: TagDatabase, after: TagDatabase): ImportSummary {
+  const pathsOf = (db: TagDatabase) =>
+    new Map(flattenTagTree(db.tagDefinitions, db.tagOrder).map(({ def, path }) => [def.id, path]));
+  const beforePaths = pathsOf(before);
+  const afterPaths = pathsOf(after);
+
+  const summary: ImportSummary = {
+    createdTags: [...afterPaths].filter(([id]) => !beforePaths.has(id)).map(([, path]) => path),
+    updatedTags: [...afterPaths]
+      .filter(
+        ([id, path]) =>
+          beforePaths.has(id) &&
+          (beforePaths.get(id) !== path ||
+            JSON.stringify(before.tagDefinitions[id]) !== JSON.stringify(after.tagDefinitions[id])),
+      )
+      .map(([, path]) => path),
+    removedTags: [...beforePaths].filter(([id]) => !afterPaths.has(id)).map(([, path]) => path),
+    changedApps: 0,
+    addedAssignments: 0,
+    removedAssignments: 0,
+  };
+
+  for (const app of new Set([...Object.keys(before.appTags), ...Object.keys(after.appTags)])) {
+    const was = before.appTags[app] ?? [];
+    const is = after.appTags[app] ?? [];
+    const added = is.filter((id) => !was.includes(id)).length;
+    const removed = was.filter((id) => !is.includes(id)).length;
+    summary.addedAssignments += added;
+    summary.removedAssignments += removed;
+    if (added + removed > 0) summary.changedApps++;
+  }
+  return summary;
+}
+
+/** One line such as `2 new tags, 1 updated, 5 apps changed`, or `No changes` */
+export function describeImportSummary(summary: ImportSummary): string {
+  const parts = [
+    summary.createdTags.length > 0 && `${summary.createdTags.length} new tag(s)`,
+    summary.updatedTags.length > 0 && `${summary.updatedTags.length} updated`,
+    summary.removedTags.length > 0 && `${summary.removedTags.length} removed`,
+    summary.changedApps > 0 && `${summary.changedApps} app(s) changed`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : "No changes";
+}
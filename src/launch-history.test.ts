@@ -0,0 +1,67 @@
+import { Application } from "@raycast/api";
+import { describe, expect, it } from "vitest";
+import { frecency, lastLaunch, pruneLaunchHistory, sortByFrecency } from "./launch-history";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1);
+
+const app = (name: string): Application => ({
+  name,
+  bundleId: `com.example.${name}`,
+  path: `/Applications/${name}.app`,
+});
+const [arc, bear, code] = [app("Arc"), app("Bear"), app("Code")];
+
+describe("frecency", () => {
+  it("halves a launch's weight every week", () => {
+    expect(frecency(arc, { "com.example.Arc": [NOW] }, NOW)).toBe(1);
+    expect(frecency(arc, { "com.example.Arc": [NOW - 7 * DAY] }, NOW)).toBeCloseTo(0.5);
+    expect(frecency(arc, { "com.example.Arc": [NOW - 14 * DAY, NOW - 14 * DAY] }, NOW)).toBeCloseTo(0.5);
+    expect(frecency(arc, {}, NOW)).toBe(0);
+  });
+
+  it("keeps the latest launch", () => {
+    expect(lastLaunch(arc, { "com.example.Arc": [NOW - DAY, NOW, NOW - 2 * DAY] })).toBe(NOW);
+    expect(lastLaunch(arc, {})).toBeUndefined();
+  });
+});
+
+describe("sortByFrecency", () => {
+  it("ranks recent launches over many old ones and breaks ties by name", () => {
+    const history = {
+      // Four launches two months ago are worth well under one launch today.
+      "com.example.Arc": [1, 2, 3, 4].map((n) => NOW - 60 * DAY - n),
+      "com.example.Code": [NOW - DAY],
+    };
+    expect(sortByFrecency([bear, arc, code], history, NOW)).toEqual([code, arc, bear]);
+    expect(sortByFrecency([code, bear, arc], {}, NOW)).toEqual([arc, bear, code]);
+  });
+});
+
+describe("pruneLaunchHistory", () => {
+  it("drops launches older than 90 days", () => {
+    const history = { "com.example.Arc": [NOW - 91 * DAY, NOW - 89 * DAY], "com.example.Bear": [NOW - 100 * DAY] };
+    expect(pruneLaunchHistory(history, NOW)).toEqual({ "com.example.Arc": [NOW - 89 * DAY] });
+  });
+
+  it("keeps the 25 latest launches per app, newest first", () => {
+    const timestamps = Array.from({ length: 30 }, (_, i) => NOW - i * 1000).reverse();
+    const pruned = pruneLaunchHistory({ "com.example.Arc": timestamps }, NOW)["com.example.Arc"];
+    expect(pruned).toHaveLength(25);
+    expect(pruned[0]).toBe(NOW);
+    expect(pruned[24]).toBe(NOW - 24 * 1000);
+  });
+
+  it("caps the total at 1000 launches, keeping the newest", () => {
+    const history = Object.fromEntries(
+      Array.from({ length: 50 }, (_, i) => [
+        `com.example.App${i}`,
+        Array.from({ length: 25 }, (_, j) => NOW - i * 25 - j),
+      ]),
+    );
+    const pruned = pruneLaunchHistory(history, NOW);
+    expect(Object.values(pruned).flat()).toHaveLength(1000);
+    expect(Object.keys(pruned)).toHaveLength(40);
+    expect(pruned["com.example.App40"]).toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+import { Application, LocalStorage, open } from "@raycast/api";
+import { getRunningApps, isAppRunning } from "./app-control";
+import { LAUNCH_HISTORY_KEY } from "./constants";
+import { appKey } from "./helpers";
+import { ActionSummary, LaunchHistory } from "./types";
+
+const MAX_LAUNCHES_PER_APP = 25;
+const MAX_TOTAL_LAUNCHES = 1000;
+const MAX_LAUNCH_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+/** A launch counts half as much after this long */
+const HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/* -------------------------------------------------------------------------- */
+/*                                  Storage                                   */
+/* -------------------------------------------------------------------------- */
+export async function loadLaunchHistory(): Promise<LaunchHistory> {
+  const stored = await LocalStorage.getItem<string>(LAUNCH_HISTORY_KEY);
+  if (!stored) return {};
+  try {
+    const parsed = JSON.parse(stored);
+    const history: LaunchHistory = {};
+    for (const [key, timestamps] of Object.entries(parsed ?? {})) {
+      if (Array.isArray(timestamps)) history[key] = timestamps.filter((t) => typeof t === "number");
+    }
+    return history;
+  } catch (err) {
+    console.error("Failed to parse launch history:", err);
+    return {};
+  }
+}
+
+/**
+ * Drops launches older than the decay window, keeps only the most recent
+ * launches per app and caps the total so storage stays small.
+ */
+export function pruneLaunchHistory(history: LaunchHistory, now = Date.now()): LaunchHistory {
+  const all = Object.entries(history).flatMap(([key, timestamps]) =>
+    timestamps
+      .filter((t) => now - t <= MAX_LAUNCH_AGE_MS)
+      .sort((a, b) => b - a)
+      .slice(0, MAX_LAUNCHES_PER_APP)
+      .map((t) => ({ key, t })),
+  );
+  all.sort((a, b) => b.t - a.t);
+
+  const pruned: LaunchHistory = {};
+  for (const { key, t } of all.slice(0, MAX_TOTAL_LAUNCHES)) {
+    (pruned[key] ??= []).push(t);
+  }
+  return pruned;
+}
+
+export async function recordLaunches(apps: Application[]): Promise<LaunchHistory> {
+  const now = Date.now();
+  const history = await loadLaunchHistory();
+  for (const app of apps) {
+    history[appKey(app)] = [now, ...(history[appKey(app)] ?? [])];
+  }
+  const pruned = pruneLaunchHistory(history, now);
+  await LocalStorage.setItem(LAUNCH_HISTORY_KEY, JSON.stringify(pruned));
+  return pruned;
+}
+
+export async function clearLaunchHistory(): Promise<void> {
+  await LocalStorage.removeItem(LAUNCH_HISTORY_KEY);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Launching                                 */
+/* -------------------------------------------------------------------------- */
+/**
+ * Every launch made by the extension should go through here so it ends up in
+ * the launch history.
+ */
+export async function launchApps(
+  apps: Application[],
+): Promise<{ opened: Application[]; failed: Application[]; history: LaunchHistory }> {
+  const opened: Application[] = [];
+  const failed: Application[] = [];
+  for (const app of apps) {
+    try {
+      await open(app.path);
+      opened.push(app);
+    } catch (err) {
+      console.error(`Failed to open ${app.name}`, err);
+      failed.push(app);
+    }
+  }
+  const history = await recordLaunches(opened);
+  return { opened, failed, history };
+}
+
+export interface OpenAllReport {
+  opened: Application[];
+  failed: Application[];
+  alreadyRunning: Application[];
+  /** Only set when something was launched */
+  history?: LaunchHistory;
+}
+
+/**
+ * Opens every app that isn't running yet. `fallbackRunning` is used when the
+ * running apps can't be listed.
+ */
+export async function openAllApps(
+  apps: Application[],
+  fallbackRunning = new Map<string, number>(),
+): Promise<OpenAllReport> {
+  const running = await getRunningApps().catch(() => fallbackRunning);
+  const alreadyRunning = apps.filter((app) => isAppRunning(app, running));
+  const toOpen = apps.filter((app) => !alreadyRunning.includes(app));
+  if (toOpen.length === 0) return { opened: [], failed: [], alreadyRunning };
+  const { opened, failed, history } = await launchApps(toOpen);
+  return { opened, failed, alreadyRunning, history };
+}
+
+export function describeOpenReport(report: OpenAllReport): ActionSummary {
+  const skippedNote = report.alreadyRunning.length > 0 ? `${report.alreadyRunning.length} already running` : undefined;
+  if (report.opened.length === 0 && report.failed.length === 0) {
+    return { title: "All apps already running", failed: false };
+  }
+  if (report.failed.length > 0) {
+    return {
+      title: `Opened ${report.opened.length} app(s)`,
+      message: [`Failed to open ${report.failed.map((app) => app.name).join(", ")}`, skippedNote]
+        .filter(Boolean)
+        .join(", "),
+      failed: true,
+    };
+  }
+  return { title: `Opened ${report.opened.length} app(s)`, message: skippedNote, failed: false };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Ranking                                   */
+/* -------------------------------------------------------------------------- */
+/** Sum of all launches, each decaying exponentially with age */
+export function frecency(app: Application, history: LaunchHistory, now = Date.now()): number {
+  return (history[appKey(app)] ?? []).reduce((score, t) => score + Math.pow(0.5, (now - t) / HALF_LIFE_MS), 0);
+}
+
+export function lastLaunch(app: Application, history: LaunchHistory): number | undefined {
+  const timestamps = history[appKey(app)];
+  return timestamps?.length ? Math.max(...timestamps) : undefined;
+}
+
+export function sortByFrecency(apps: Application[], history: LaunchHistory, now = Date.now()): Application[] {
+  const scores = new Map(apps.map((app) => [app.path, frecency(app, history, now)]));
+  return [...apps].sort((a, b) => scores.get(b.path)! - scores.get(a.path)! || a.name.localeCompare(b.name));
+}
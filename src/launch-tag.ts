@@ -0,0 +1,69 @@
+import { Application, getApplications, LaunchProps, showHUD } from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { describeQuitReport, quitApps } from "./app-control";
+import { FAVORITES_TITLE, getPinnedApps } from "./favorites";
+import { filterAppsByTag } from "./helpers";
+import { withoutHiddenApps } from "./hidden-apps";
+import { describeOpenReport, openAllApps } from "./launch-history";
+import { applySmartTags } from "./smart-tags";
+import { tagStore } from "./tag-store";
+import { findTag, getTagPath } from "./tags";
+import { ActionSummary, LaunchTagArguments, TagDatabase } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                          Launch Tag (no-view command)                      */
+/* -------------------------------------------------------------------------- */
+// Opens or quits every app with a tag, the same as ⌘O / ⌘⇧O on a tag query in
+// Browse Apps. Bound to a hotkey or a quicklink it opens a workspace in one step.
+export default async function Command(props: LaunchProps<{ arguments: LaunchTagArguments }>) {
+  const { tag: query, action = "open" } = props.arguments;
+  try {
+    const database = await tagStore.load();
+    const installedApps = withoutHiddenApps(await getApplications(), database);
+    // A typo must not quit some other tag's apps, so quitting never falls back to a fuzzy match.
+    const group = resolveGroup(query, database, installedApps, { fuzzy: action !== "quit" });
+    if (!group) {
+      await showHUD(`No tag matches "${query}"`);
+      return;
+    }
+    if (group.apps.length === 0) {
+      await showHUD(group.emptyMessage);
+      return;
+    }
+
+    const summary: ActionSummary =
+      action === "quit"
+        ? describeQuitReport(await quitApps(group.apps))
+        : describeOpenReport(await openAllApps(group.apps));
+    await showHUD(`${group.title}: ${summary.title}${summary.message ? ` (${summary.message})` : ""}`);
+  } catch (err) {
+    await showFailureToast(err, { title: `Could not ${action} apps` });
+  }
+}
+
+/** The apps of the tag `query` names; "Favorites" means the pinned apps unless a tag has that exact name */
+function resolveGroup(
+  query: string,
+  { tagDefinitions, tagOrder, appTags, appTagExcludes, pinnedApps }: TagDatabase,
+  installedApps: Application[],
+  options: { fuzzy: boolean },
+): { title: string; apps: Application[]; emptyMessage: string } | undefined {
+  const tag = findTag(query, tagDefinitions, tagOrder, options);
+  const tagPath = tag && getTagPath(tag.id, tagDefinitions);
+  const isFavorites = query.trim().toLowerCase() === FAVORITES_TITLE.toLowerCase();
+  if (isFavorites && tagPath?.toLowerCase() !== FAVORITES_TITLE.toLowerCase()) {
+    return {
+      title: FAVORITES_TITLE,
+      apps: getPinnedApps(installedApps, pinnedApps),
+      emptyMessage: "No apps pinned to Favorites",
+    };
+  }
+  if (!tag || !tagPath) return undefined;
+
+  const { tags } = applySmartTags(installedApps, appTags, appTagExcludes, tagDefinitions);
+  return {
+    title: tagPath,
+    apps: filterAppsByTag(installedApps, tag.id, tags, tagDefinitions),
+    emptyMessage: `No apps tagged ${tagPath}`,
+  };
+}
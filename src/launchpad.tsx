@@ -1,25 +1,84 @@
 import {
   Action,
   ActionPanel,
+  Alert,
   Application,
+  Color,
+  confirmAlert,
   getApplications,
+  getPreferenceValues,
+  Grid,
   Icon,
   List,
   LocalStorage,
-  open,
   showToast,
   Toast,
 } from "@raycast/api";
-import { exec } from "child_process";
-import Fuse from "fuse.js";
+import { showFailureToast } from "@raycast/utils";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { promisify } from "util";
+import { getAppDisplayName } from "./app-details";
+import { activateApp, describeQuitReport, hideApp, isAppRunning, quitApps } from "./app-control";
+import { AppInfo } from "./components/app-info";
+import { AppDetailsForm } from "./components/app-details-form";
+import { HiddenApps } from "./components/hidden-apps";
+import { BulkTagEditor } from "./components/bulk-tag-editor";
+import { OrphanedTags } from "./components/orphaned-tags";
+import { describeConflict, SyncConflicts } from "./components/sync-conflicts";
 import { TagEditor } from "./components/tag-editor";
-import { PAGE_SIZE, REFRESH_KEY, TAG_DEFINITIONS_KEY, TAG_ORDER_KEY } from "./constants";
-import { generateId, loadStoredTags, TagEvents } from "./helpers";
-import { AppTags, TagDefinitions } from "./types";
+import { TagFilterDropdown } from "./components/tag-filter-dropdown";
+import { TagHistory } from "./components/tag-history";
+import {
+  ALL_APPS_FILTER,
+  DETAIL_PANE_KEY,
+  GROUP_BY_TAG_KEY,
+  PAGE_SIZE,
+  TAG_FILTER_KEY,
+  UNTAGGED_FILTER,
+  VIEW_MODE_KEY,
+} from "./constants";
+import { dismissSyncConflict, keepMinePatch, loadSyncConflicts, watchSyncFile } from "./file-sync";
+import { appKey, filterAppsByTag, groupAppsByTag, refreshMenuBar } from "./helpers";
+import { getHiddenReason, isAppHidden, withoutHiddenApps } from "./hidden-apps";
+import { FAVORITES_ID, FAVORITES_TITLE, getPinnedApps, isPinned, movePin } from "./favorites";
+import { useAppMetadata } from "./hooks/use-app-metadata";
+import { useRunningApps } from "./hooks/use-running-apps";
+import { useTagState } from "./hooks/use-tag-state";
+import { describeImportSummary } from "./import-export";
+import {
+  clearLaunchHistory,
+  describeOpenReport,
+  frecency,
+  loadLaunchHistory,
+  openAllApps,
+  recordLaunches,
+  sortByFrecency,
+} from "./launch-history";
+import { findOrphanedEntries } from "./orphans";
+import { createAppSearchIndex, searchApps } from "./query";
+import { applySmartTags, describeTagSource } from "./smart-tags";
+import { tagStore } from "./tag-store";
+import { flattenTagTree, getTagColor, getTagIcon, getTagPath, isValidTagShortcut, TagMove } from "./tags";
+import {
+  AppDetails,
+  BulkTagMode,
+  ChildTagStrategy,
+  ImportMode,
+  LaunchHistory,
+  LaunchpadPreferences,
+  SyncConflict,
+  TagImport,
+  TagInput,
+  TagOperation,
+  TagRule,
+  ViewMode,
+} from "./types";
 
-const execAsync = promisify(exec);
+/** Grid items show up once per tag section, so their ids are `<section>::<path>` */
+const ITEM_ID_SEPARATOR = "::";
+
+const RUNNING_ACCESSORY = { icon: { source: Icon.CircleFilled, tintColor: Color.Green }, tooltip: "Running" };
+const PINNED_ACCESSORY = { icon: Icon.Pin, tooltip: "In Favorites" };
+const HIDDEN_ACCESSORY = { icon: { source: Icon.EyeDisabled, tintColor: Color.SecondaryText }, tooltip: "Hidden" };
 
 /* -------------------------------------------------------------------------- */
 /*                                Root Command                                */
@@ -27,258 +86,884 @@ const execAsync = promisify(exec);
 
 export default function Command() {
   const [allApps, setAllApps] = useState<Application[]>([]);
-  const [tags, setTags] = useState<AppTags>({});
-  const [tagDefinitions, setTagDefinitions] = useState<TagDefinitions>({});
-  const [tagOrder, setTagOrder] = useState<string[]>([]);
+  const {
+    database: {
+      appTags: tags,
+      appTagExcludes: tagExcludes,
+      appDetails,
+      hiddenApps,
+      ignoreRules,
+      pinnedApps,
+      tagDefinitions,
+      tagOrder,
+    },
+    isLoading: isLoadingTags,
+  } = useTagState({
+    onChange: ({ origin }) => {
+      if (origin === "update") refreshMenuBar();
+      reloadSyncConflicts();
+    },
+  });
   const [searchText, setSearchText] = useState("");
   const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
-  const [isLoading, setIsLoading] = useState(true);
+  const [launchHistory, setLaunchHistory] = useState<LaunchHistory>({});
+  const [viewMode, setViewMode] = useState<ViewMode>("list");
+  const [groupByTag, setGroupByTag] = useState(false);
+  const [tagFilter, setTagFilter] = useState(ALL_APPS_FILTER);
+  const [runningOnly, setRunningOnly] = useState(false);
+  const [showHidden, setShowHidden] = useState(false);
+  const [showDetail, setShowDetail] = useState(false);
+  const [selectedPath, setSelectedPath] = useState<string>();
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const { running, refresh: refreshRunning } = useRunningApps();
+  const selectedMetadata = useAppMetadata(viewMode === "list" && showDetail ? selectedPath : undefined);
+  const [isLoadingApps, setIsLoadingApps] = useState(true);
+  const isLoading = isLoadingApps || isLoadingTags;
+  const { sortOrder } = getPreferenceValues<LaunchpadPreferences>();
 
   /* ---------------------------------------------------------------------- */
   /*              🚀 1. Load cached data immediately (no delay)              */
   /* ---------------------------------------------------------------------- */
   useEffect(() => {
     (async () => {
-      const { tags, tagDefinitions, tagOrder } = await loadStoredTags();
-      setTags(tags);
-      setTagDefinitions(tagDefinitions);
-      setTagOrder(tagOrder);
+      const storedViewMode = await LocalStorage.getItem<string>(VIEW_MODE_KEY);
+      if (storedViewMode === "grid" || storedViewMode === "list") setViewMode(storedViewMode);
+      setGroupByTag((await LocalStorage.getItem<string>(GROUP_BY_TAG_KEY)) === "true");
+      setShowDetail((await LocalStorage.getItem<string>(DETAIL_PANE_KEY)) === "true");
+      setTagFilter((await LocalStorage.getItem<string>(TAG_FILTER_KEY)) ?? ALL_APPS_FILTER);
     })();
   }, []);
 
   /* ---------------------------------------------------------------------- */
-  /*              🚀 2. Async refresh (apps and latest data)                */
+  /*              🚀 2. Async refresh (apps and launch history)             */
   /* ---------------------------------------------------------------------- */
   const loadData = useCallback(async () => {
-    const installedApps = await getApplications();
-    installedApps.sort((a, b) => a.name.localeCompare(b.name));
-
-    const { tags, tagDefinitions, tagOrder } = await loadStoredTags();
-    setAllApps(installedApps);
-    setTags(tags);
-    setTagDefinitions(tagDefinitions);
-    setTagOrder(tagOrder);
-    setIsLoading(false);
+    try {
+      const installedApps = await getApplications();
+      installedApps.sort((a, b) => a.name.localeCompare(b.name));
+
+      setLaunchHistory(await loadLaunchHistory());
+      setAllApps(installedApps);
+    } catch (err) {
+      await showFailureToast(err, { title: "Could not load apps" });
+    } finally {
+      setIsLoadingApps(false);
+    }
   }, []);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  // Edits made to the sync file elsewhere show up without reopening the command.
+  useEffect(
+    () =>
+      watchSyncFile(() =>
+        tagStore.load().catch((err) => showFailureToast(err, { title: "Could not load synced tags" })),
+      ),
+    [],
+  );
+
+  async function reloadSyncConflicts() {
+    setSyncConflicts(await loadSyncConflicts());
+  }
+
+  /** Tag changes can fail to write; that shows up as a toast instead of going unhandled */
+  async function reportFailure(title: string, action: () => Promise<void>) {
+    try {
+      await action();
+    } catch (err) {
+      await showFailureToast(err, { title });
+    }
+  }
+
   /* ---------------------------------------------------------------------- */
-  /*                         Persistence helpers                            */
+  /*                              Undo helpers                              */
   /* ---------------------------------------------------------------------- */
-  async function persistRefreshVersion() {
-    await LocalStorage.setItem(REFRESH_KEY, Date.now().toString());
+  async function showUndoableToast(title: string, message: string, operation?: TagOperation) {
+    await showToast({
+      style: Toast.Style.Success,
+      title,
+      message,
+      primaryAction: operation && {
+        title: "Undo",
+        shortcut: { modifiers: ["cmd"], key: "z" },
+        onAction: async (toast) => {
+          await toast.hide();
+          await undo(operation.id);
+        },
+      },
+    });
   }
 
-  async function persistTagOrder(order: string[]) {
-    setTagOrder(order);
-    await LocalStorage.setItem(TAG_ORDER_KEY, JSON.stringify(order));
+  async function undo(operationId: string) {
+    await reportFailure("Could not undo", async () => {
+      const result = await tagStore.undo(operationId);
+      if (!result) {
+        await showToast(Toast.Style.Failure, "Nothing to Undo", "This change was already undone");
+        return;
+      }
+      await showToast(
+        Toast.Style.Success,
+        "Undone",
+        result.undone.length === 1 ? result.undone[0].label : `${result.undone.length} changes`,
+      );
+    });
   }
 
   /* ---------------------------------------------------------------------- */
   /*                         CRUD Tag Operations                             */
   /* ---------------------------------------------------------------------- */
-  async function saveTags(bundleIdOrPath: string, tagList: string[]) {
-    const newTags = { ...tags, [bundleIdOrPath]: tagList };
-    setTags(newTags);
-    await LocalStorage.setItem(bundleIdOrPath, JSON.stringify(tagList));
-    await persistRefreshVersion();
-    TagEvents.emit("tagsUpdated");
-  }
-
-  async function createTag(name: string, color: string) {
-    const id = generateId();
-    const defsStr = await LocalStorage.getItem<string>(TAG_DEFINITIONS_KEY);
-    const defs: TagDefinitions = defsStr ? JSON.parse(defsStr) : {};
-    defs[id] = { id, name, color };
-    await LocalStorage.setItem(TAG_DEFINITIONS_KEY, JSON.stringify(defs));
-    setTagDefinitions(defs);
-
-    const orderStr = await LocalStorage.getItem<string>(TAG_ORDER_KEY);
-    let order: string[] = orderStr ? JSON.parse(orderStr) : [];
-    order = [...order, id];
-    await persistTagOrder(order);
-
-    await persistRefreshVersion();
-    TagEvents.emit("tagsUpdated");
-    await showToast(Toast.Style.Success, "Tag Created", `Added ${name}`);
-  }
-
-  async function editTag(id: string, newName: string, newColor: string) {
-    const defsStr = await LocalStorage.getItem<string>(TAG_DEFINITIONS_KEY);
-    const defs: TagDefinitions = defsStr ? JSON.parse(defsStr) : {};
-    if (!defs[id]) return;
-    defs[id] = { id, name: newName, color: newColor };
-    await LocalStorage.setItem(TAG_DEFINITIONS_KEY, JSON.stringify(defs));
-    setTagDefinitions(defs);
-    await persistRefreshVersion();
-    TagEvents.emit("tagsUpdated");
-    await showToast(Toast.Style.Success, "Tag Updated", `Updated ${newName}`);
-  }
-
-  async function deleteTag(id: string) {
-    const defsStr = await LocalStorage.getItem<string>(TAG_DEFINITIONS_KEY);
-    const defs: TagDefinitions = defsStr ? JSON.parse(defsStr) : {};
-    delete defs[id];
-    const updatedTags: AppTags = { ...tags };
-    for (const key in updatedTags) {
-      const current = updatedTags[key];
-      if (Array.isArray(current)) {
-        updatedTags[key] = current.filter((tagId) => tagId !== id);
-        await LocalStorage.setItem(key, JSON.stringify(updatedTags[key]));
+  async function saveTags(app: Application, tagList: string[], excludeList: string[]) {
+    await reportFailure("Could not save tags", async () => {
+      const { operation } = await tagStore.setAppTags(app, tagList, excludeList);
+      await showUndoableToast("Tags Saved", `Updated ${app.name}`, operation);
+    });
+  }
+
+  async function createTag(input: TagInput) {
+    await reportFailure("Could not create tag", async () => {
+      const { operation } = await tagStore.createTag(input);
+      await showUndoableToast("Tag Created", `Added ${input.name}`, operation);
+    });
+  }
+
+  async function editTag(id: string, input: TagInput) {
+    await reportFailure("Could not update tag", async () => {
+      const change = await tagStore.editTag(id, input);
+      if (!change) return;
+      await showUndoableToast("Tag Updated", `Updated ${input.name}`, change.operation);
+    });
+  }
+
+  async function deleteTag(id: string, children: ChildTagStrategy = "promote") {
+    await reportFailure("Could not delete tag", async () => {
+      const name = tagDefinitions[id] ? getTagPath(id, tagDefinitions) : "tag";
+      const { operation } = await tagStore.deleteTag(id, children);
+      await showUndoableToast("Tag Deleted", `Removed ${name}`, operation);
+    });
+  }
+
+  async function mergeTags(sourceId: string, targetId: string) {
+    await reportFailure("Could not merge tags", async () => {
+      const { operation } = await tagStore.mergeTags(sourceId, targetId);
+      await showUndoableToast("Tags Merged", operation?.label ?? "", operation);
+    });
+  }
+
+  async function duplicateTag(id: string) {
+    await reportFailure("Could not duplicate tag", async () => {
+      const { database, operation, id: copyId } = await tagStore.duplicateTag(id);
+      const name = database.tagDefinitions[copyId] ? getTagPath(copyId, database.tagDefinitions) : "tag";
+      await showUndoableToast("Tag Duplicated", `Created ${name}`, operation);
+    });
+  }
+
+  async function importTags(data: TagImport, mode: ImportMode) {
+    await reportFailure("Could not import tags", async () => {
+      const { operation, summary } = await tagStore.importTags(data, mode);
+      await showUndoableToast("Tags Imported", describeImportSummary(summary), operation);
+    });
+  }
+
+  async function saveAppDetails(app: Application, details: AppDetails) {
+    await reportFailure("Could not save details", async () => {
+      const { operation } = await tagStore.setAppDetails(app, details);
+      await showUndoableToast("Details Saved", `Updated ${details.displayName || app.name}`, operation);
+    });
+  }
+
+  async function hideFromList(app: Application) {
+    await reportFailure("Could not hide app", async () => {
+      const { operation } = await tagStore.hideApps([app]);
+      await showUndoableToast(
+        "App Hidden",
+        `${getAppDisplayName(app, appDetails)} is restorable from Hidden Apps`,
+        operation,
+      );
+    });
+  }
+
+  async function restoreApps(apps: Application[]) {
+    await reportFailure("Could not restore apps", async () => {
+      const { operation } = await tagStore.unhideApps(apps);
+      await showUndoableToast("Apps Restored", operation?.label ?? "", operation);
+    });
+  }
+
+  async function saveIgnoreRules(rules: TagRule[]) {
+    await reportFailure("Could not save ignore rules", async () => {
+      const { operation } = await tagStore.setIgnoreRules(rules);
+      await showUndoableToast("Ignore Rules Saved", `${rules.length} rule(s)`, operation);
+    });
+  }
+
+  async function togglePin(app: Application) {
+    await reportFailure("Could not update Favorites", async () => {
+      const name = getAppDisplayName(app, appDetails);
+      if (isPinned(app, pinnedApps)) {
+        const { operation } = await tagStore.unpinApp(app);
+        await showUndoableToast("Unpinned", `Removed ${name} from Favorites`, operation);
+      } else {
+        const { operation } = await tagStore.pinApp(app);
+        await showUndoableToast("Pinned", `Added ${name} to Favorites`, operation);
       }
-    }
-    setTags(updatedTags);
-    const orderStr = await LocalStorage.getItem<string>(TAG_ORDER_KEY);
-    let order: string[] = orderStr ? JSON.parse(orderStr) : [];
-    order = order.filter((tagId) => tagId !== id);
-    await persistTagOrder(order);
-    await LocalStorage.setItem(TAG_DEFINITIONS_KEY, JSON.stringify(defs));
-    setTagDefinitions(defs);
-    await persistRefreshVersion();
-    TagEvents.emit("tagsUpdated");
-    await showToast(Toast.Style.Success, "Tag Deleted", "Tag removed successfully");
+    });
+  }
+
+  async function handleMovePin(app: Application, move: TagMove) {
+    await reportFailure("Could not move favorite", async () => {
+      await tagStore.reorderPins(movePin(app, move, pinnedApps, favorites));
+    });
+  }
+
+  async function resolveSyncConflict(conflict: SyncConflict, keep: "mine" | "theirs") {
+    await reportFailure("Could not resolve conflict", async () => {
+      if (keep === "mine") {
+        const { operation } = await tagStore.applyPatch(
+          `Keep ${describeConflict(conflict)} from This Mac`,
+          keepMinePatch(conflict),
+        );
+        await dismissSyncConflict(conflict);
+        await showUndoableToast("Conflict Resolved", "Kept this Mac's version", operation);
+      } else {
+        await dismissSyncConflict(conflict);
+        await showToast(Toast.Style.Success, "Conflict Resolved", "Kept the sync file's version");
+      }
+    });
+    await reloadSyncConflicts();
+  }
+
+  async function reorderTags(order: string[]) {
+    await reportFailure("Could not reorder tags", async () => {
+      await tagStore.reorderTags(order);
+    });
+  }
+
+  async function bulkAssignTag(tagId: string, mode: BulkTagMode, apps: Application[]) {
+    await reportFailure("Could not update tags", async () => {
+      const { operation } = await tagStore.bulkAssignTag(tagId, mode, apps);
+      await showUndoableToast(mode === "add" ? "Tag Added" : "Tag Removed", operation?.label ?? "", operation);
+    });
+  }
+
+  async function relinkOrphan(fromKey: string, toApp: Application) {
+    await reportFailure("Could not re-link tags", async () => {
+      const { operation } = await tagStore.relinkEntry(fromKey, toApp);
+      await showUndoableToast("Tags Re-Linked", `Moved tags to ${toApp.name}`, operation);
+    });
+  }
+
+  async function deleteOrphans(keys: string[]) {
+    await reportFailure("Could not delete orphaned tags", async () => {
+      const { operation } = await tagStore.removeEntries(keys);
+      await showUndoableToast("Orphaned Tags Deleted", operation?.label ?? "", operation);
+    });
   }
 
   /* ---------------------------------------------------------------------- */
   /*                             Search + Paging                            */
   /* ---------------------------------------------------------------------- */
-  const fuse = useMemo(() => new Fuse(allApps, { keys: ["name"], threshold: 0.4 }), [allApps]);
-  const filteredApps = useMemo(() => {
-    if (!searchText) return allApps;
-    if (searchText.startsWith("#")) {
-      const q = searchText.slice(1).toLowerCase();
-      return allApps.filter((a) => {
-        const appTagIds = tags[a.bundleId ?? a.path] ?? [];
-        return appTagIds.some((id) => tagDefinitions[id]?.name.toLowerCase().includes(q));
-      });
-    }
-    return fuse.search(searchText).map((r) => r.item);
-  }, [allApps, fuse, searchText, tags, tagDefinitions]);
+  const smartTags = useMemo(
+    () => applySmartTags(allApps, tags, tagExcludes, tagDefinitions),
+    [allApps, tags, tagExcludes, tagDefinitions],
+  );
+
+  const hiddenCount = useMemo(
+    () => allApps.length - withoutHiddenApps(allApps, { hiddenApps, ignoreRules }).length,
+    [allApps, hiddenApps, ignoreRules],
+  );
+  const shownApps = useMemo(
+    () => (showHidden ? allApps : withoutHiddenApps(allApps, { hiddenApps, ignoreRules })),
+    [allApps, hiddenApps, ignoreRules, showHidden],
+  );
+
+  const rankedApps = useMemo(
+    () =>
+      sortOrder === "alphabetical"
+        ? [...shownApps].sort((a, b) =>
+            getAppDisplayName(a, appDetails).localeCompare(getAppDisplayName(b, appDetails)),
+          )
+        : sortByFrecency(shownApps, launchHistory),
+    [shownApps, appDetails, launchHistory, sortOrder],
+  );
+  const boost = useCallback(
+    (app: Application) => {
+      if (sortOrder === "alphabetical") return 0;
+      const score = frecency(app, launchHistory);
+      return score / (score + 1);
+    },
+    [launchHistory, sortOrder],
+  );
+
+  const fuse = useMemo(
+    () => createAppSearchIndex(allApps, { appDetails, tags: smartTags.tags, tagDefinitions }),
+    [allApps, appDetails, smartTags, tagDefinitions],
+  );
+  const orphanedEntries = useMemo(
+    () =>
+      isLoading
+        ? []
+        : findOrphanedEntries(allApps, {
+            appTags: tags,
+            appTagExcludes: tagExcludes,
+            appDetails,
+            hiddenApps,
+            pinnedApps,
+          }),
+    [isLoading, allApps, tags, tagExcludes, appDetails, hiddenApps, pinnedApps],
+  );
+
+  const shortcutTags = useMemo(
+    () =>
+      flattenTagTree(tagDefinitions, tagOrder).flatMap(({ def, path }) =>
+        isValidTagShortcut(def.shortcut) ? [{ def, path, shortcut: def.shortcut }] : [],
+      ),
+    [tagDefinitions, tagOrder],
+  );
+
+  const tagRank = useMemo(
+    () => new Map(flattenTagTree(tagDefinitions, tagOrder).map(({ def }, index) => [def.id, index])),
+    [tagDefinitions, tagOrder],
+  );
+
+  const tagFilteredApps = useMemo(() => {
+    const byTag = filterAppsByTag(rankedApps, tagFilter, smartTags.tags, tagDefinitions);
+    return runningOnly ? byTag.filter((app) => isAppRunning(app, running)) : byTag;
+  }, [rankedApps, tagFilter, smartTags, tagDefinitions, runningOnly, running]);
+  const searchResult = useMemo(
+    () => searchApps(tagFilteredApps, searchText, { fuse, tags: smartTags.tags, tagDefinitions, boost }),
+    [tagFilteredApps, fuse, searchText, smartTags, tagDefinitions, boost],
+  );
+  const filteredApps = searchResult.apps;
 
   const visibleApps = filteredApps.slice(0, visibleCount);
-  useEffect(() => setVisibleCount(PAGE_SIZE), [searchText]);
+  useEffect(() => setVisibleCount(PAGE_SIZE), [searchText, tagFilter, runningOnly, showHidden]);
+
+  // Open / Close All never act on hidden apps, even while they are shown.
+  const actionableApps = useMemo(
+    () => withoutHiddenApps(filteredApps, { hiddenApps, ignoreRules }),
+    [filteredApps, hiddenApps, ignoreRules],
+  );
+
+  // Favorites sit above the list while browsing; in search results they are marked with a pin instead.
+  const favorites = useMemo(
+    () => (searchText.trim() ? [] : getPinnedApps(filteredApps, pinnedApps)),
+    [searchText, filteredApps, pinnedApps],
+  );
+  const launchableFavorites = useMemo(
+    () => getPinnedApps(withoutHiddenApps(allApps, { hiddenApps, ignoreRules }), pinnedApps),
+    [allApps, hiddenApps, ignoreRules, pinnedApps],
+  );
+
+  const showSections = viewMode === "grid" || groupByTag;
+  const sectionCounts = useMemo(
+    () =>
+      showSections
+        ? new Map(
+            groupAppsByTag(filteredApps, smartTags.tags, tagDefinitions, tagOrder).map((s) => [s.id, s.apps.length]),
+          )
+        : new Map<string, number>(),
+    [showSections, filteredApps, smartTags, tagDefinitions, tagOrder],
+  );
 
   /* ---------------------------------------------------------------------- */
-  /*               🧩 Open / Close All if Exact Tag Matched                 */
+  /*               🧩 Open / Close All Apps Matched by a Tag Query          */
   /* ---------------------------------------------------------------------- */
-  const matchedTagId = searchText.startsWith("#")
-    ? Object.keys(tagDefinitions).find(
-        (id) => tagDefinitions[id].name.toLowerCase() === searchText.slice(1).toLowerCase(),
-      )
-    : undefined;
+  // Only a query every match must be tagged for, so `-#games` can't open or quit nearly everything.
+  const isTagQuery = (searchResult.requiresTag || !!tagDefinitions[tagFilter]) && !searchResult.error;
 
   async function handleOpenAll() {
-    if (!matchedTagId) return;
-    const appsToOpen = allApps.filter((a) => (tags[a.bundleId ?? a.path] ?? []).includes(matchedTagId));
-    if (appsToOpen.length === 0) {
-      await showToast(Toast.Style.Failure, "No apps found for this tag");
+    if (!isTagQuery) return;
+    await openGroup(actionableApps, "No apps found for this query");
+  }
+
+  async function handleCloseAll() {
+    if (!isTagQuery) return;
+    await quitGroup(actionableApps, "No apps found for this query");
+  }
+
+  async function openGroup(apps: Application[], emptyMessage: string) {
+    if (apps.length === 0) {
+      await showToast(Toast.Style.Failure, emptyMessage);
       return;
     }
 
-    await showToast(Toast.Style.Animated, `Opening ${appsToOpen.length} apps...`);
-    for (const app of appsToOpen) {
-      try {
-        await open(app.path);
-      } catch (err) {
-        console.error(`Failed to open ${app.name}`, err);
-      }
-    }
-    await showToast(Toast.Style.Success, `Opened ${appsToOpen.length} app(s)`);
+    await showToast(Toast.Style.Animated, `Opening ${apps.length} apps...`);
+    const report = await openAllApps(apps, running);
+    if (report.history) setLaunchHistory(report.history);
+    await refreshRunning();
+    const { title, message, failed } = describeOpenReport(report);
+    await showToast(failed ? Toast.Style.Failure : Toast.Style.Success, title, message);
   }
 
-  async function handleCloseAll() {
-    if (!matchedTagId) return;
-    const appsToClose = allApps.filter((a) => (tags[a.bundleId ?? a.path] ?? []).includes(matchedTagId));
+  async function quitGroup(appsToClose: Application[], emptyMessage: string) {
     if (appsToClose.length === 0) {
-      await showToast(Toast.Style.Failure, "No apps found for this tag");
+      await showToast(Toast.Style.Failure, emptyMessage);
       return;
     }
 
-    await showToast(Toast.Style.Animated, `Closing ${appsToClose.length} apps...`);
-    for (const app of appsToClose) {
-      try {
-        await execAsync(`osascript -e 'tell application "${app.name}" to quit'`);
-      } catch (err) {
-        console.error(`Failed to close ${app.name}`, err);
+    await showToast(Toast.Style.Animated, `Quitting ${appsToClose.length} apps...`);
+    try {
+      const report = await quitApps(appsToClose);
+      await refreshRunning();
+      const { title, message, failed } = describeQuitReport(report);
+      await showToast(failed ? Toast.Style.Failure : Toast.Style.Success, title, message);
+    } catch (err) {
+      await showFailureToast(err, { title: "Failed to close apps" });
+    }
+  }
+
+  async function handleClearLaunchHistory() {
+    const confirmed = await confirmAlert({
+      title: "Clear Launch History",
+      message: "Apps will no longer be ranked by how often you open them until you launch them again.",
+      icon: Icon.Trash,
+      primaryAction: { title: "Clear", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await clearLaunchHistory();
+    setLaunchHistory({});
+    await showToast(Toast.Style.Success, "Launch history cleared");
+  }
+
+  async function handleQuitApp(app: Application) {
+    try {
+      const report = await quitApps([app]);
+      await refreshRunning();
+      if (report.failed.length > 0) {
+        await showToast(Toast.Style.Failure, `Could not quit ${app.name}`, report.failed[0].reason);
+      } else {
+        await showToast(
+          Toast.Style.Success,
+          `Quit ${app.name}`,
+          report.forceQuit.length > 0 ? "Force-quit" : undefined,
+        );
       }
+    } catch (err) {
+      await showFailureToast(err, { title: `Could not quit ${app.name}` });
+    }
+  }
+
+  async function handleAppControl(app: Application, action: (app: Application) => Promise<void>, failure: string) {
+    try {
+      await action(app);
+    } catch (err) {
+      await showFailureToast(err, { title: `${failure} ${app.name}` });
     }
-    await showToast(Toast.Style.Success, `Closed ${appsToClose.length} app(s)`);
+  }
+
+  async function toggleGroupByTag() {
+    setGroupByTag(!groupByTag);
+    await LocalStorage.setItem(GROUP_BY_TAG_KEY, String(!groupByTag));
+  }
+
+  async function toggleDetail() {
+    setShowDetail(!showDetail);
+    await LocalStorage.setItem(DETAIL_PANE_KEY, String(!showDetail));
+  }
+
+  async function changeTagFilter(value: string) {
+    setTagFilter(value);
+    await LocalStorage.setItem(TAG_FILTER_KEY, value);
+  }
+
+  async function toggleViewMode() {
+    const next: ViewMode = viewMode === "grid" ? "list" : "grid";
+    setViewMode(next);
+    await LocalStorage.setItem(VIEW_MODE_KEY, next);
   }
 
   /* ---------------------------------------------------------------------- */
   /*                               Render                                   */
   /* ---------------------------------------------------------------------- */
+  function handleSelectionChange(id: string | null) {
+    if (!id) return;
+    const path = id.includes(ITEM_ID_SEPARATOR)
+      ? id.slice(id.indexOf(ITEM_ID_SEPARATOR) + ITEM_ID_SEPARATOR.length)
+      : id;
+    setSelectedPath(path);
+    const index = visibleApps.findIndex((a) => a.path === path);
+    if (index >= visibleApps.length - 5 && visibleCount < filteredApps.length) {
+      setVisibleCount((v) => v + PAGE_SIZE);
+    }
+  }
+
+  function renderActions(app: Application, inFavorites = false) {
+    return (
+      <ActionPanel>
+        <Action.Open
+          title="Open App"
+          target={app.path}
+          onOpen={async () => setLaunchHistory(await recordLaunches([app]))}
+        />
+        {isAppRunning(app, running) && (
+          <ActionPanel.Section>
+            <Action
+              title="Bring to Front"
+              icon={Icon.Window}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+              onAction={() => handleAppControl(app, activateApp, "Could not activate")}
+            />
+            <Action
+              title="Hide App"
+              icon={Icon.EyeDisabled}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "h" }}
+              onAction={() => handleAppControl(app, hideApp, "Could not hide")}
+            />
+            <Action
+              title="Quit App"
+              icon={Icon.XMarkCircle}
+              style={Action.Style.Destructive}
+              shortcut={{ modifiers: ["ctrl"], key: "x" }}
+              onAction={() => handleQuitApp(app)}
+            />
+          </ActionPanel.Section>
+        )}
+        <Action.Push
+          title="Edit Tags"
+          icon={Icon.Tag}
+          target={
+            <TagEditor
+              app={app}
+              onSave={(newTags, excludes) => saveTags(app, newTags, excludes)}
+              onCreateGlobal={createTag}
+              onEditGlobal={editTag}
+              onDeleteGlobal={deleteTag}
+              onBulkAssignGlobal={bulkAssignTag}
+              onReorderGlobal={reorderTags}
+              onMergeGlobal={mergeTags}
+              onDuplicateGlobal={duplicateTag}
+              onImportGlobal={importTags}
+            />
+          }
+        />
+        <Action
+          title={isPinned(app, pinnedApps) ? "Unpin" : "Pin to Top"}
+          icon={isPinned(app, pinnedApps) ? Icon.PinDisabled : Icon.Pin}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+          onAction={() => togglePin(app)}
+        />
+        <Action.Push
+          title="Edit App Details"
+          icon={Icon.Pencil}
+          shortcut={{ modifiers: ["cmd"], key: "e" }}
+          target={<AppDetailsForm app={app} onSave={(details) => saveAppDetails(app, details)} />}
+        />
+        {getHiddenReason(app, { hiddenApps, ignoreRules })?.type === "manual" ? (
+          <Action title="Restore App" icon={Icon.Eye} onAction={() => restoreApps([app])} />
+        ) : (
+          !isAppHidden(app, { hiddenApps, ignoreRules }) && (
+            <Action title="Hide App from List" icon={Icon.EyeSlash} onAction={() => hideFromList(app)} />
+          )
+        )}
+        <Action.Push
+          title="Bulk Tag Results"
+          icon={Icon.CheckList}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "b" }}
+          target={
+            <BulkTagEditor
+              apps={allApps}
+              initialTagId={tagDefinitions[tagFilter] ? tagFilter : undefined}
+              initialSelection={filteredApps.map((a) => a.path)}
+              onApply={bulkAssignTag}
+            />
+          }
+        />
+        {isTagQuery && (
+          <>
+            <ActionPanel.Section>
+              <Action
+                title="Open All Matching Apps"
+                icon={Icon.Play}
+                onAction={handleOpenAll}
+                shortcut={{ modifiers: ["cmd"], key: "o" }}
+              />
+              <Action
+                title="Close All Matching Apps"
+                icon={Icon.XMarkCircle}
+                onAction={handleCloseAll}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "o" }}
+              />
+            </ActionPanel.Section>
+          </>
+        )}
+        {inFavorites && (
+          <ActionPanel.Section title={FAVORITES_TITLE}>
+            <Action
+              title="Open All Favorites"
+              icon={Icon.Play}
+              shortcut={{ modifiers: ["cmd", "opt"], key: "o" }}
+              onAction={() => openGroup(launchableFavorites, "No favorites to open")}
+            />
+            <Action
+              title="Quit All Favorites"
+              icon={Icon.XMarkCircle}
+              shortcut={{ modifiers: ["cmd", "opt", "shift"], key: "o" }}
+              onAction={() => quitGroup(launchableFavorites, "No favorites to quit")}
+            />
+            <Action
+              title="Move up"
+              icon={Icon.ArrowUp}
+              shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+              onAction={() => handleMovePin(app, "up")}
+            />
+            <Action
+              title="Move Down"
+              icon={Icon.ArrowDown}
+              shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+              onAction={() => handleMovePin(app, "down")}
+            />
+          </ActionPanel.Section>
+        )}
+        {shortcutTags.length > 0 && (
+          <ActionPanel.Section title="Filter by Tag">
+            {shortcutTags.map(({ def, path, shortcut }) => (
+              <Action
+                key={def.id}
+                title={tagFilter === def.id ? `Stop Filtering by ${path}` : `Filter by ${path}`}
+                icon={getTagIcon(def.id, tagDefinitions)}
+                shortcut={{ modifiers: ["ctrl", "opt"], key: shortcut }}
+                onAction={() => changeTagFilter(tagFilter === def.id ? ALL_APPS_FILTER : def.id)}
+              />
+            ))}
+          </ActionPanel.Section>
+        )}
+        <ActionPanel.Section>
+          <Action
+            title={runningOnly ? "Show All Apps" : "Show Running Apps Only"}
+            icon={runningOnly ? Icon.AppWindowGrid3x3 : Icon.CircleFilled}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+            onAction={() => setRunningOnly(!runningOnly)}
+          />
+          <Action
+            title={viewMode === "grid" ? "Show as List" : "Show as Grid"}
+            icon={viewMode === "grid" ? Icon.List : Icon.AppWindowGrid3x3}
+            onAction={toggleViewMode}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "g" }}
+          />
+          {viewMode === "list" && (
+            <Action
+              title={groupByTag ? "Show Flat List" : "Group by Tag"}
+              icon={groupByTag ? Icon.List : Icon.Folder}
+              onAction={toggleGroupByTag}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+            />
+          )}
+          {viewMode === "list" && (
+            <Action
+              title={showDetail ? "Hide App Info" : "Show App Info"}
+              icon={Icon.Sidebar}
+              onAction={toggleDetail}
+              shortcut={{ modifiers: ["cmd"], key: "i" }}
+            />
+          )}
+          <Action
+            title={showHidden ? "Stop Showing Hidden Apps" : "Show Hidden Apps"}
+            icon={showHidden ? Icon.EyeSlash : Icon.Eye}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "." }}
+            onAction={() => setShowHidden(!showHidden)}
+          />
+          {syncConflicts.length > 0 && (
+            <Action.Push
+              title={`Resolve Sync Conflicts (${syncConflicts.length})`}
+              icon={Icon.ExclamationMark}
+              target={<SyncConflicts onResolve={resolveSyncConflict} />}
+            />
+          )}
+          <Action.Push
+            title={`Manage Hidden Apps (${hiddenCount})`}
+            icon={Icon.EyeDisabled}
+            target={<HiddenApps apps={allApps} onRestore={restoreApps} onEditRules={saveIgnoreRules} />}
+          />
+          <Action.Push
+            title={`Clean up Orphaned Tags (${orphanedEntries.length})`}
+            icon={Icon.Hammer}
+            target={<OrphanedTags apps={allApps} onRelink={relinkOrphan} onDelete={deleteOrphans} />}
+          />
+          <Action.Push
+            title="Show Tag History"
+            icon={Icon.Clock}
+            shortcut={{ modifiers: ["cmd"], key: "y" }}
+            target={<TagHistory onUndo={undo} />}
+          />
+          <Action
+            title="Clear Launch History"
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            onAction={handleClearLaunchHistory}
+          />
+        </ActionPanel.Section>
+      </ActionPanel>
+    );
+  }
+
+  const EmptyView = viewMode === "grid" ? Grid.EmptyView : List.EmptyView;
+  const emptyView = searchResult.error ? (
+    <EmptyView
+      icon={Icon.ExclamationMark}
+      title="Invalid Query"
+      description={`${searchResult.error.message} (at position ${searchResult.error.position + 1})`}
+    />
+  ) : (
+    searchResult.unknownTags.length > 0 && (
+      <EmptyView
+        icon={Icon.Tag}
+        title="No Matching Apps"
+        description={`Unknown tag: ${searchResult.unknownTags.map((name) => `#${name}`).join(", ")}`}
+      />
+    )
+  );
+
+  const searchBarAccessory = (
+    <TagFilterDropdown
+      viewMode={viewMode}
+      tagDefinitions={tagDefinitions}
+      tagOrder={tagOrder}
+      value={tagDefinitions[tagFilter] || tagFilter === UNTAGGED_FILTER ? tagFilter : ALL_APPS_FILTER}
+      onChange={changeTagFilter}
+    />
+  );
+
+  function renderGridItem(app: Application, sectionId: string) {
+    const id = `${sectionId}${ITEM_ID_SEPARATOR}${app.path}`;
+    return (
+      <Grid.Item
+        id={id}
+        key={id}
+        title={getAppDisplayName(app, appDetails)}
+        content={{ fileIcon: app.path }}
+        accessory={
+          showHidden && isAppHidden(app, { hiddenApps, ignoreRules })
+            ? HIDDEN_ACCESSORY
+            : isAppRunning(app, running)
+              ? RUNNING_ACCESSORY
+              : sectionId !== FAVORITES_ID && isPinned(app, pinnedApps)
+                ? PINNED_ACCESSORY
+                : undefined
+        }
+        actions={renderActions(app, sectionId === FAVORITES_ID)}
+      />
+    );
+  }
+
+  if (viewMode === "grid") {
+    return (
+      <Grid
+        isLoading={isLoading}
+        columns={6}
+        inset={Grid.Inset.Small}
+        searchBarPlaceholder="Search apps or #tag, e.g. #work -#games..."
+        onSearchTextChange={setSearchText}
+        onSelectionChange={handleSelectionChange}
+        searchBarAccessory={searchBarAccessory}
+        throttle
+      >
+        {emptyView}
+        {favorites.length > 0 && (
+          <Grid.Section title={FAVORITES_TITLE} subtitle={`${favorites.length}`}>
+            {favorites.map((app) => renderGridItem(app, FAVORITES_ID))}
+          </Grid.Section>
+        )}
+        {groupAppsByTag(visibleApps, smartTags.tags, tagDefinitions, tagOrder).map((section) => (
+          <Grid.Section
+            key={section.id}
+            title={section.title}
+            subtitle={`${sectionCounts.get(section.id) ?? section.apps.length}`}
+          >
+            {section.apps.map((app) => renderGridItem(app, section.id))}
+          </Grid.Section>
+        ))}
+      </Grid>
+    );
+  }
+
+  function renderListItem(app: Application, id: string, inFavorites = false) {
+    const key = appKey(app);
+    const appTagIds = smartTags.tags[key] ?? [];
+    const displayName = getAppDisplayName(app, appDetails);
+    const hidden = showHidden && isAppHidden(app, { hiddenApps, ignoreRules });
+    const orderedTagIds = appTagIds
+      .filter((tagId) => tagRank.has(tagId))
+      .sort((a, b) => tagRank.get(a)! - tagRank.get(b)!);
+    const accessories = orderedTagIds.map((tagId) => ({
+      tag: {
+        value: tagDefinitions[tagId].name,
+        color: getTagColor(tagId, tagDefinitions),
+        tooltip: [
+          describeTagSource(tagId, smartTags.sources[key]?.[tagId], tagDefinitions),
+          tagDefinitions[tagId].description,
+        ]
+          .filter(Boolean)
+          .join("\n"),
+      },
+    }));
+
+    return (
+      <List.Item
+        id={id}
+        key={id}
+        title={displayName}
+        subtitle={displayName !== app.name ? app.name : undefined}
+        icon={{ fileIcon: app.path }}
+        accessories={[
+          ...(hidden ? [HIDDEN_ACCESSORY] : []),
+          ...(!inFavorites && isPinned(app, pinnedApps) ? [PINNED_ACCESSORY] : []),
+          ...(isAppRunning(app, running) ? [RUNNING_ACCESSORY] : []),
+          // The detail pane lists the tags, and there is no room for them next to it.
+          ...(showDetail ? [] : accessories),
+        ]}
+        detail={
+          showDetail && (
+            <AppInfo
+              app={app}
+              tagIds={orderedTagIds}
+              tagDefinitions={tagDefinitions}
+              lastLaunch={launchHistory[key]?.[0]}
+              metadata={app.path === selectedPath ? selectedMetadata : undefined}
+            />
+          )
+        }
+        actions={renderActions(app, inFavorites)}
+      />
+    );
+  }
+
+  const favoritesSection = favorites.length > 0 && (
+    <List.Section title={FAVORITES_TITLE} subtitle={`${favorites.length}`}>
+      {favorites.map((app) => renderListItem(app, `${FAVORITES_ID}${ITEM_ID_SEPARATOR}${app.path}`, true))}
+    </List.Section>
+  );
+
   return (
     <List
       isLoading={isLoading}
-      searchBarPlaceholder="Search apps or #tag..."
+      searchBarPlaceholder="Search apps or #tag, e.g. #work -#games..."
       onSearchTextChange={setSearchText}
-      onSelectionChange={(id) => {
-        if (!id) return;
-        const index = visibleApps.findIndex((a) => a.path === id);
-        if (index >= visibleApps.length - 5 && visibleCount < filteredApps.length) {
-          setVisibleCount((v) => v + PAGE_SIZE);
-        }
-      }}
+      onSelectionChange={handleSelectionChange}
+      searchBarAccessory={searchBarAccessory}
+      isShowingDetail={showDetail}
       throttle
     >
-      {visibleApps.map((app) => {
-        const appTagIds = tags[app.bundleId ?? app.path] ?? [];
-        const accessories = appTagIds
-          .map((id) => tagDefinitions[id])
-          .filter(Boolean)
-          .map((def) => ({ tag: { value: def!.name, color: def!.color, tooltip: def!.name } }));
-
-        return (
-          <List.Item
-            id={app.path}
-            key={app.path}
-            title={app.name}
-            icon={{ fileIcon: app.path }}
-            accessories={accessories}
-            actions={
-              <ActionPanel>
-                <Action.Open title="Open App" target={app.path} />
-                <Action.Push
-                  title="Edit Tags"
-                  icon={Icon.Tag}
-                  target={
-                    <TagEditor
-                      app={app}
-                      onSave={(newTags) => saveTags(app.bundleId ?? app.path, newTags)}
-                      onCreateGlobal={createTag}
-                      onEditGlobal={editTag}
-                      onDeleteGlobal={deleteTag}
-                      tagOrder={tagOrder}
-                    />
-                  }
-                />
-                {matchedTagId && (
-                  <>
-                    <ActionPanel.Section>
-                      <Action
-                        title="Open All Apps with Tag"
-                        icon={Icon.Play}
-                        onAction={handleOpenAll}
-                        shortcut={{ modifiers: ["cmd"], key: "o" }}
-                      />
-                      <Action
-                        title="Close All Apps with Tag"
-                        icon={Icon.XMarkCircle}
-                        onAction={handleCloseAll}
-                        shortcut={{ modifiers: ["cmd", "shift"], key: "o" }}
-                      />
-                    </ActionPanel.Section>
-                  </>
-                )}
-              </ActionPanel>
-            }
-          />
-        );
-      })}
+      {emptyView}
+      {favoritesSection}
+      {groupByTag ? (
+        groupAppsByTag(visibleApps, smartTags.tags, tagDefinitions, tagOrder).map((section) => (
+          <List.Section
+            key={section.id}
+            title={section.title}
+            subtitle={`${sectionCounts.get(section.id) ?? section.apps.length}`}
+          >
+            {section.apps.map((app) => renderListItem(app, `${section.id}${ITEM_ID_SEPARATOR}${app.path}`))}
+          </List.Section>
+        ))
+      ) : favorites.length > 0 ? (
+        <List.Section title="All Apps">
+          {visibleApps.filter((app) => !favorites.includes(app)).map((app) => renderListItem(app, app.path))}
+        </List.Section>
+      ) : (
+        visibleApps.map((app) => renderListItem(app, app.path))
+      )}
     </List>
   );
 }
@@ -0,0 +1,131 @@
+import {
+  Application,
+  getApplications,
+  Icon,
+  Image,
+  launchCommand,
+  LaunchType,
+  MenuBarExtra,
+  showHUD,
+} from "@raycast/api";
+import { showFailureToast } from "@raycast/utils";
+import { useEffect, useMemo, useState } from "react";
+import { describeQuitReport, quitApps } from "./app-control";
+import { getAppDisplayName } from "./app-details";
+import { UNTAGGED_FILTER } from "./constants";
+import { FAVORITES_ID, FAVORITES_TITLE, getPinnedApps } from "./favorites";
+import { filterAppsByTag } from "./helpers";
+import { withoutHiddenApps } from "./hidden-apps";
+import { useTagState } from "./hooks/use-tag-state";
+import { describeOpenReport, launchApps, openAllApps } from "./launch-history";
+import { applySmartTags } from "./smart-tags";
+import { flattenTagTree, getTagIcon } from "./tags";
+import { ActionSummary } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                              Menu Bar Command                              */
+/* -------------------------------------------------------------------------- */
+
+export default function Command() {
+  const [allApps, setAllApps] = useState<Application[]>([]);
+  const [isLoadingApps, setIsLoadingApps] = useState(true);
+  const {
+    database: { appTags, appTagExcludes, appDetails, hiddenApps, ignoreRules, pinnedApps, tagDefinitions, tagOrder },
+    isLoading: isLoadingTags,
+  } = useTagState();
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const installedApps = await getApplications();
+        setAllApps(installedApps.sort((a, b) => a.name.localeCompare(b.name)));
+      } catch (err) {
+        await showFailureToast(err, { title: "Could not load apps" });
+      } finally {
+        setIsLoadingApps(false);
+      }
+    })();
+  }, []);
+
+  const shownApps = useMemo(
+    () => withoutHiddenApps(allApps, { hiddenApps, ignoreRules }),
+    [allApps, hiddenApps, ignoreRules],
+  );
+  const smartTags = useMemo(
+    () => applySmartTags(allApps, appTags, appTagExcludes, tagDefinitions),
+    [allApps, appTags, appTagExcludes, tagDefinitions],
+  );
+  const tagMenus = useMemo(
+    () =>
+      flattenTagTree(tagDefinitions, tagOrder).map(({ def, path }) => ({
+        def,
+        path,
+        apps: filterAppsByTag(shownApps, def.id, smartTags.tags, tagDefinitions),
+      })),
+    [shownApps, smartTags, tagDefinitions, tagOrder],
+  );
+  const favorites = useMemo(() => getPinnedApps(shownApps, pinnedApps), [shownApps, pinnedApps]);
+  const untaggedApps = useMemo(
+    () => filterAppsByTag(shownApps, UNTAGGED_FILTER, smartTags.tags, tagDefinitions),
+    [shownApps, smartTags, tagDefinitions],
+  );
+
+  async function report(action: () => Promise<ActionSummary>, failure: string) {
+    try {
+      const { title, message } = await action();
+      await showHUD(message ? `${title} (${message})` : title);
+    } catch (err) {
+      await showFailureToast(err, { title: failure });
+    }
+  }
+
+  async function openApp(app: Application) {
+    const { failed } = await launchApps([app]);
+    if (failed.length > 0) await showFailureToast(`Could not open ${app.name}`);
+  }
+
+  const renderApps = (apps: Application[]) =>
+    apps.map((app) => (
+      <MenuBarExtra.Item
+        key={app.path}
+        title={getAppDisplayName(app, appDetails)}
+        icon={{ fileIcon: app.path }}
+        onAction={() => openApp(app)}
+      />
+    ));
+
+  const renderGroup = (key: string, title: string, icon: Image.ImageLike, apps: Application[]) => (
+    <MenuBarExtra.Submenu key={key} title={`${title} (${apps.length})`} icon={icon}>
+      <MenuBarExtra.Item
+        title="Open All"
+        icon={Icon.Play}
+        onAction={() => report(async () => describeOpenReport(await openAllApps(apps)), "Could not open apps")}
+      />
+      <MenuBarExtra.Item
+        title="Quit All"
+        icon={Icon.XMarkCircle}
+        onAction={() => report(async () => describeQuitReport(await quitApps(apps)), "Could not quit apps")}
+      />
+      <MenuBarExtra.Section>{renderApps(apps)}</MenuBarExtra.Section>
+    </MenuBarExtra.Submenu>
+  );
+
+  return (
+    <MenuBarExtra icon={Icon.AppWindowGrid3x3} tooltip="Launchpad+" isLoading={isLoadingApps || isLoadingTags}>
+      {favorites.length > 0 && renderGroup(FAVORITES_ID, FAVORITES_TITLE, Icon.Star, favorites)}
+      {tagMenus.map(({ def, path, apps }) => renderGroup(def.id, path, getTagIcon(def.id, tagDefinitions), apps))}
+      {untaggedApps.length > 0 && (
+        <MenuBarExtra.Submenu title={`Untagged (${untaggedApps.length})`} icon={Icon.Circle}>
+          {renderApps(untaggedApps)}
+        </MenuBarExtra.Submenu>
+      )}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Browse Apps"
+          icon={Icon.MagnifyingGlass}
+          onAction={() => launchCommand({ name: "launchpad", type: LaunchType.UserInitiated })}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -0,0 +1,52 @@
+import { Application } from "@raycast/api";
+import { describe, expect, it } from "vitest";
+import { emptyDatabase } from "./database";
+import { findOrphanedEntries, relinkEntry, removeEntries } from "./orphans";
+import { TagDatabase } from "./types";
+
+const slack: Application = { name: "Slack", path: "/Applications/Slack.app", bundleId: "com.slack" };
+const notes: Application = { name: "Notes", path: "/System/Applications/Notes.app", bundleId: "com.notes" };
+
+function database(): TagDatabase {
+  return {
+    ...emptyDatabase(),
+    tagDefinitions: { work: { id: "work", name: "Work" } },
+    tagOrder: ["work"],
+    appTags: { "com.old.slack": ["work"], "com.slack": ["work"] },
+    hiddenApps: ["com.old.slack", "com.gone"],
+    pinnedApps: ["com.notes", "com.old.slack", "com.pinned.gone"],
+  };
+}
+
+describe("findOrphanedEntries", () => {
+  it("finds tags, hidden and pinned apps stored for apps that are no longer installed", () => {
+    expect(findOrphanedEntries([slack, notes], database())).toEqual([
+      { key: "com.gone", tagIds: [], excludedTagIds: [], hidden: true, pinned: false },
+      { key: "com.old.slack", tagIds: ["work"], excludedTagIds: [], hidden: true, pinned: true },
+      { key: "com.pinned.gone", tagIds: [], excludedTagIds: [], hidden: false, pinned: true },
+    ]);
+  });
+});
+
+describe("relinkEntry", () => {
+  it("moves tags, the hidden state and the pin onto the new key", () => {
+    const db = relinkEntry(database(), "com.old.slack", "com.slack");
+    expect(db.appTags).toEqual({ "com.slack": ["work"] });
+    expect(db.hiddenApps).toEqual(["com.slack", "com.gone"]);
+    expect(db.pinnedApps).toEqual(["com.notes", "com.slack", "com.pinned.gone"]);
+  });
+
+  it("keeps a single pin when the new key is pinned already", () => {
+    const db = relinkEntry(database(), "com.old.slack", "com.notes");
+    expect(db.pinnedApps).toEqual(["com.notes", "com.pinned.gone"]);
+  });
+});
+
+describe("removeEntries", () => {
+  it("removes tags, hidden state and pins of every key", () => {
+    const db = removeEntries(database(), ["com.old.slack", "com.gone", "com.pinned.gone"]);
+    expect(db.appTags).toEqual({ "com.slack": ["work"] });
+    expect(db.hiddenApps).toEqual([]);
+    expect(db.pinnedApps).toEqual(["com.notes"]);
+  });
+});
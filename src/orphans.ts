@@ -0,0 +1,110 @@
+import { Application } from "@raycast/api";
+import Fuse from "fuse.js";
+import { basename, extname } from "path";
+import { AppDetailsMap, AppTags, TagDatabase } from "./types";
+
+export interface OrphanedEntry {
+  /** The bundle id or path the tags are stored under */
+  key: string;
+  tagIds: string[];
+  excludedTagIds: string[];
+  /** Hidden from the app list by hand */
+  hidden: boolean;
+  /** In Favorites */
+  pinned: boolean;
+}
+
+/** Stored entries whose bundle id or path no longer belongs to an installed app */
+export function findOrphanedEntries(
+  apps: Application[],
+  db: Pick<TagDatabase, "appTags" | "appTagExcludes" | "appDetails" | "hiddenApps" | "pinnedApps">,
+): OrphanedEntry[] {
+  const installed = new Set(apps.flatMap((app) => [app.bundleId, app.path].filter((k): k is string => !!k)));
+  const keys = new Set([
+    ...Object.keys(db.appTags),
+    ...Object.keys(db.appTagExcludes),
+    ...Object.keys(db.appDetails),
+    ...db.hiddenApps,
+    ...db.pinnedApps,
+  ]);
+  return [...keys]
+    .filter((key) => !installed.has(key))
+    .map((key) => ({
+      key,
+      tagIds: db.appTags[key] ?? [],
+      excludedTagIds: db.appTagExcludes[key] ?? [],
+      hidden: db.hiddenApps.includes(key),
+      pinned: db.pinnedApps.includes(key),
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/** A readable app name guessed from a stored key, e.g. `com.tinyspeck.slackmacgap` → `slackmacgap` */
+export function guessAppName(key: string): string {
+  if (key.startsWith("/")) return basename(key, extname(key));
+  return key.split(".").pop() ?? key;
+}
+
+/**
+ * Best installed app to re-link an orphaned entry to. An app at the same bundle
+ * name (a moved app) wins; otherwise a fuzzy match on name and bundle id.
+ */
+export function suggestRelink(key: string, apps: Application[]): Application | undefined {
+  const name = guessAppName(key).toLowerCase();
+  const sameName = apps.find(
+    (app) => app.name.toLowerCase() === name || basename(app.path, ".app").toLowerCase() === name,
+  );
+  if (sameName) return sameName;
+  const fuse = new Fuse(apps, { keys: ["name", "bundleId"], threshold: 0.3 });
+  return fuse.search(name)[0]?.item;
+}
+
+function union(a: string[] = [], b: string[] = []): string[] {
+  return [...new Set([...a, ...b])];
+}
+
+/** `fromKey` swapped for `toKey` in place, or dropped when `toKey` is listed already */
+function replaceKey(keys: string[], fromKey: string, toKey: string): string[] {
+  if (!keys.includes(fromKey)) return keys;
+  if (keys.includes(toKey)) return keys.filter((key) => key !== fromKey);
+  return keys.map((key) => (key === fromKey ? toKey : key));
+}
+
+/**
+ * Moves the tags of `fromKey` onto `toKey`, merging with anything already stored
+ * there. App details only move when `toKey` has none of its own; a hidden app
+ * stays hidden and a pinned one keeps its place in Favorites.
+ */
+export function relinkEntry(db: TagDatabase, fromKey: string, toKey: string): TagDatabase {
+  const appTags: AppTags = { ...db.appTags };
+  const appTagExcludes: AppTags = { ...db.appTagExcludes };
+  const appDetails: AppDetailsMap = { ...db.appDetails };
+  if (appTags[fromKey]) appTags[toKey] = union(appTags[toKey], appTags[fromKey]);
+  if (appTagExcludes[fromKey]) appTagExcludes[toKey] = union(appTagExcludes[toKey], appTagExcludes[fromKey]);
+  if (appDetails[fromKey] && !appDetails[toKey]) appDetails[toKey] = appDetails[fromKey];
+  delete appTags[fromKey];
+  delete appTagExcludes[fromKey];
+  delete appDetails[fromKey];
+  return {
+    ...db,
+    appTags,
+    appTagExcludes,
+    appDetails,
+    hiddenApps: replaceKey(db.hiddenApps, fromKey, toKey),
+    pinnedApps: replaceKey(db.pinnedApps, fromKey, toKey),
+  };
+}
+
+export function removeEntries(db: TagDatabase, keys: string[]): TagDatabase {
+  const appTags: AppTags = { ...db.appTags };
+  const appTagExcludes: AppTags = { ...db.appTagExcludes };
+  const appDetails: AppDetailsMap = { ...db.appDetails };
+  for (const key of keys) {
+    delete appTags[key];
+    delete appTagExcludes[key];
+    delete appDetails[key];
+  }
+  const hiddenApps = db.hiddenApps.filter((key) => !keys.includes(key));
+  const pinnedApps = db.pinnedApps.filter((key) => !keys.includes(key));
+  return { ...db, appTags, appTagExcludes, appDetails, hiddenApps, pinnedApps };
+}
@@ -0,0 +1,43 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { parsePlist } from "./plist";
+
+const fixture = (app: string) => readFileSync(join(__dirname, "..", "test", "fixtures", app, "Contents", "Info.plist"));
+
+describe("parsePlist", () => {
+  it("reads an XML plist", () => {
+    expect(parsePlist(fixture("Xml Example.app"))).toEqual({
+      CFBundleIdentifier: "com.example.xml",
+      CFBundleShortVersionString: "1.92.0",
+      CFBundleVersion: "1920",
+      LSMinimumSystemVersion: "12.0",
+      LSApplicationCategoryType: "public.app-category.developer-tools",
+      NSHumanReadableCopyright: "© 2026 Example & Co.",
+      CFBundleURLTypes: [{ CFBundleURLSchemes: ["example"] }],
+      LSUIElement: false,
+    });
+  });
+
+  it("reads a binary plist", () => {
+    expect(parsePlist(fixture("Binary Example.app"))).toEqual({
+      CFBundleIdentifier: "com.example.binary",
+      CFBundleShortVersionString: "3.1",
+      CFBundleVersion: "310",
+      LSApplicationCategoryType: "public.app-category.productivity",
+      NSHumanReadableCopyright: "Ünïcödé ✓",
+      NSHighResolutionCapable: true,
+      BuildDate: new Date(Date.UTC(2026, 0, 2, 3, 4, 5)),
+      Signature: Buffer.from([0, 1, 2]),
+      Counts: [1, -1, 255, 65536, 2 ** 40, Number(2n ** 63n + 5n)],
+      Ratio: 0.5,
+    });
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => parsePlist(Buffer.from("<plist><dict><string>x</string></dict></plist>"))).toThrow(
+      "expected <key> in <dict>",
+    );
+    expect(() => parsePlist(Buffer.from("bplist00"))).toThrow("too short");
+  });
+});
@@ -0,0 +1,229 @@
+/** A value in a property list; `data` becomes a Buffer and `date` a Date */
+export type PlistValue = string | number | boolean | Date | Buffer | PlistValue[] | { [key: string]: PlistValue };
+
+const BINARY_MAGIC = "bplist00";
+/** Binary plist dates count seconds from 2001-01-01 */
+const APPLE_EPOCH_MS = Date.UTC(2001, 0, 1);
+const MAX_DEPTH = 256;
+
+export function isPlistDict(value: PlistValue): value is { [key: string]: PlistValue } {
+  return typeof value === "object" && !Array.isArray(value) && !Buffer.isBuffer(value) && !(value instanceof Date);
+}
+
+/** Parses an XML or binary (`bplist00`) property list; throws on anything malformed */
+export function parsePlist(data: Buffer): PlistValue {
+  return data.subarray(0, BINARY_MAGIC.length).toString("latin1") === BINARY_MAGIC
+    ? parseBinaryPlist(data)
+    : parseXmlPlist(data.toString("utf8"));
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                     XML                                    */
+/* -------------------------------------------------------------------------- */
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return XML_ENTITIES[name] ?? entity;
+    const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+export function parseXmlPlist(xml: string): PlistValue {
+  const tokens = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/gi, "").match(/<[^>]*>|[^<]+/g) ?? [];
+  let index = 0;
+
+  const isTag = (token: string | undefined) => token !== undefined && token.startsWith("<");
+  const nextTag = () => {
+    while (index < tokens.length && !isTag(tokens[index]) && !tokens[index].trim()) index++;
+    const token = tokens[index++];
+    if (!isTag(token)) throw new Error(`Invalid plist: expected a tag, found "${token?.trim() ?? "end of file"}"`);
+    return token.slice(1, -1).trim();
+  };
+  const expectTag = (name: string) => {
+    const tag = nextTag();
+    if (tag !== name) throw new Error(`Invalid plist: expected <${name}>, found <${tag}>`);
+  };
+  /** The text up to the closing tag; elements like `<string></string>` are empty */
+  const readText = (name: string) => {
+    const text = isTag(tokens[index]) ? "" : decodeEntities(tokens[index++] ?? "");
+    expectTag(`/${name}`);
+    return text;
+  };
+
+  const parseValue = (depth: number, tag = nextTag()): PlistValue => {
+    if (depth > MAX_DEPTH) throw new Error("Invalid plist: nested too deeply");
+    const name = tag.replace(/\/$/, "").split(/\s/)[0];
+    const selfClosing = tag.endsWith("/");
+    switch (name) {
+      case "plist": {
+        const value = parseValue(depth + 1);
+        expectTag("/plist");
+        return value;
+      }
+      case "dict": {
+        const dict: { [key: string]: PlistValue } = {};
+        if (selfClosing) return dict;
+        for (let next = nextTag(); next !== "/dict"; next = nextTag()) {
+          if (next !== "key") throw new Error(`Invalid plist: expected <key> in <dict>, found <${next}>`);
+          const key = readText("key");
+          dict[key] = parseValue(depth + 1);
+        }
+        return dict;
+      }
+      case "array": {
+        const array: PlistValue[] = [];
+        if (selfClosing) return array;
+        for (let next = nextTag(); next !== "/array"; next = nextTag()) array.push(parseValue(depth + 1, next));
+        return array;
+      }
+      case "string":
+        return selfClosing ? "" : readText("string");
+      case "integer":
+      case "real": {
+        const text = readText(name).trim();
+        const value = Number(text);
+        if (!text || Number.isNaN(value)) throw new Error(`Invalid plist: "${text}" is not a number`);
+        return value;
+      }
+      case "true":
+      case "false":
+        if (!selfClosing) expectTag(`/${name}`);
+        return name === "true";
+      case "date": {
+        const date = new Date(readText("date").trim());
+        if (Number.isNaN(date.getTime())) throw new Error("Invalid plist: bad <date>");
+        return date;
+      }
+      case "data":
+        return Buffer.from(selfClosing ? "" : readText("data").replace(/\s+/g, ""), "base64");
+      default:
+        throw new Error(`Invalid plist: unexpected <${tag}>`);
+    }
+  };
+
+  return parseValue(0);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Binary                                   */
+/* -------------------------------------------------------------------------- */
+// Layout: header, objects, offset table, 32-byte trailer. Every object starts
+// with a marker byte: the high nibble is the type, the low nibble a size or
+// count (0xF means the count follows as an int object).
+function readUInt(data: Buffer, offset: number, size: number): number {
+  if (offset + size > data.length) throw new Error("Invalid plist: read past the end");
+  if (size === 8) return Number(data.readBigUInt64BE(offset));
+  if (size < 1 || size > 6) throw new Error(`Invalid plist: unsupported int size ${size}`);
+  return data.readUIntBE(offset, size);
+}
+
+export function parseBinaryPlist(data: Buffer): PlistValue {
+  if (data.length < BINARY_MAGIC.length + 32) throw new Error("Invalid plist: too short");
+  const trailer = data.length - 32;
+  const offsetSize = data[trailer + 6];
+  const refSize = data[trailer + 7];
+  const objectCount = readUInt(data, trailer + 8, 8);
+  const topObject = readUInt(data, trailer + 16, 8);
+  const offsetTable = readUInt(data, trailer + 24, 8);
+  if (offsetTable + objectCount * offsetSize > trailer) throw new Error("Invalid plist: bad offset table");
+
+  const offsetOf = (ref: number) => {
+    if (ref >= objectCount) throw new Error(`Invalid plist: object ${ref} does not exist`);
+    return readUInt(data, offsetTable + ref * offsetSize, offsetSize);
+  };
+
+  /** The count in a marker, and where the object's content starts */
+  const readCount = (offset: number): { count: number; start: number } => {
+    const low = data[offset] & 0x0f;
+    if (low !== 0x0f) return { count: low, start: offset + 1 };
+    const intMarker = data[offset + 1];
+    if (intMarker >> 4 !== 0x1) throw new Error("Invalid plist: bad object count");
+    const size = 1 << (intMarker & 0x0f);
+    return { count: readUInt(data, offset + 2, size), start: offset + 2 + size };
+  };
+
+  const slice = (start: number, length: number) => {
+    if (start + length > trailer) throw new Error("Invalid plist: read past the end");
+    return data.subarray(start, start + length);
+  };
+
+  // Refs currently being parsed, so a self-referencing container can't recurse forever.
+  const parsing = new Set<number>();
+
+  const parseObject = (ref: number): PlistValue => {
+    if (parsing.has(ref) || parsing.size > MAX_DEPTH) throw new Error("Invalid plist: circular reference");
+    parsing.add(ref);
+    try {
+      return parseAt(offsetOf(ref));
+    } finally {
+      parsing.delete(ref);
+    }
+  };
+
+  const parseAt = (offset: number): PlistValue => {
+    const marker = data[offset];
+    const type = marker >> 4;
+    const low = marker & 0x0f;
+    switch (type) {
+      case 0x0:
+        if (marker === 0x08 || marker === 0x09) return marker === 0x09;
+        throw new Error(`Invalid plist: unsupported marker 0x${marker.toString(16)}`);
+      case 0x1: {
+        const size = 1 << low;
+        // 8-byte ints are signed. Unsigned values from 2^63 up are written as 16 bytes,
+        // with the value in the low 8.
+        if (size === 8) return Number(slice(offset + 1, 8).readBigInt64BE(0));
+        if (size === 16) return Number(slice(offset + 9, 8).readBigUInt64BE(0));
+        return readUInt(data, offset + 1, size);
+      }
+      case 0x2:
+        if (low === 2) return slice(offset + 1, 4).readFloatBE(0);
+        if (low === 3) return slice(offset + 1, 8).readDoubleBE(0);
+        throw new Error("Invalid plist: unsupported real size");
+      case 0x3:
+        return new Date(APPLE_EPOCH_MS + slice(offset + 1, 8).readDoubleBE(0) * 1000);
+      case 0x4: {
+        const { count, start } = readCount(offset);
+        return Buffer.from(slice(start, count));
+      }
+      case 0x5: {
+        const { count, start } = readCount(offset);
+        return slice(start, count).toString("latin1");
+      }
+      case 0x6: {
+        const { count, start } = readCount(offset);
+        // UTF-16 big endian; Node only decodes little endian, so swap a copy.
+        return Buffer.from(slice(start, count * 2))
+          .swap16()
+          .toString("utf16le");
+      }
+      case 0x7: {
+        const { count, start } = readCount(offset);
+        return slice(start, count).toString("utf8");
+      }
+      case 0x8:
+        return readUInt(data, offset + 1, low + 1);
+      case 0xa:
+      case 0xc: {
+        const { count, start } = readCount(offset);
+        return Array.from({ length: count }, (_, i) => parseObject(readUInt(data, start + i * refSize, refSize)));
+      }
+      case 0xd: {
+        const { count, start } = readCount(offset);
+        const dict: { [key: string]: PlistValue } = {};
+        for (let i = 0; i < count; i++) {
+          const key = parseObject(readUInt(data, start + i * refSize, refSize));
+          if (typeof key !== "string") throw new Error("Invalid plist: dictionary key is not a string");
+          dict[key] = parseObject(readUInt(data, start + (count + i) * refSize, refSize));
+        }
+        return dict;
+      }
+      default:
+        throw new Error(`Invalid plist: unsupported marker 0x${marker.toString(16)}`);
+    }
+  };
+
+  return parseObject(topObject);
+}
@@ -0,0 +1,154 @@
+import { Application } from "@raycast/api";
+import { describe, expect, it } from "vitest";
+import { createAppSearchIndex, parseQuery, QuerySyntaxError, requiresTag, resolveQueryTags, searchApps } from "./query";
+import { AppTags, TagDefinitions } from "./types";
+
+const tagDefinitions: TagDefinitions = {
+  work: { id: "work", name: "Work" },
+  design: { id: "design", name: "Design", parentId: "work" },
+  games: { id: "games", name: "Games" },
+  side: { id: "side", name: "Side Projects" },
+};
+
+const app = (name: string, bundleId: string): Application => ({ name, bundleId, path: `/Applications/${name}.app` });
+const figma = app("Figma", "com.figma.Desktop");
+const slack = app("Slack", "com.tinyspeck.slackmacgap");
+const chess = app("Chess", "com.apple.Chess");
+const code = app("Visual Studio Code", "com.microsoft.VSCode");
+const apps = [figma, slack, chess, code];
+
+const tags: AppTags = {
+  "com.figma.Desktop": ["design"],
+  "com.tinyspeck.slackmacgap": ["work"],
+  "com.apple.Chess": ["games"],
+  "com.microsoft.VSCode": ["work", "side"],
+};
+
+function search(query: string, boost?: (app: Application) => number) {
+  const fuse = createAppSearchIndex(apps, { appDetails: {}, tags, tagDefinitions });
+  return searchApps(apps, query, { fuse, tags, tagDefinitions, boost });
+}
+
+const names = (query: string) => search(query).apps.map((a) => a.name);
+
+describe("parseQuery", () => {
+  it("returns null for an empty query", () => {
+    expect(parseQuery("   ")).toBeNull();
+  });
+
+  it("binds AND tighter than OR and applies NOT to the next term", () => {
+    expect(parseQuery("#work -#games | #design")).toEqual({
+      type: "or",
+      operands: [
+        {
+          type: "and",
+          operands: [
+            { type: "tag", name: "work", position: 0 },
+            { type: "not", operand: { type: "tag", name: "games", position: 7 } },
+          ],
+        },
+        { type: "tag", name: "design", position: 16 },
+      ],
+    });
+  });
+
+  it("groups terms with parentheses", () => {
+    expect(parseQuery("(#work | #dev) code")).toEqual({
+      type: "and",
+      operands: [
+        {
+          type: "or",
+          operands: [
+            { type: "tag", name: "work", position: 1 },
+            { type: "tag", name: "dev", position: 9 },
+          ],
+        },
+        { type: "text", value: "code" },
+      ],
+    });
+  });
+
+  it("reads quoted tag names and joins adjacent free text into one phrase", () => {
+    expect(parseQuery('#"side projects" visual "studio code"')).toEqual({
+      type: "and",
+      operands: [
+        { type: "tag", name: "side projects", position: 0 },
+        { type: "text", value: "visual studio code" },
+      ],
+    });
+  });
+
+  it.each([
+    ['#work "code', "Missing closing quote", 6],
+    ["#work # code", "Expected a tag name after #", 6],
+    ['#work -""', "Expected a term after -", 9],
+    ["(#work #dev", "Missing closing parenthesis", 0],
+    ["#work )", "Unexpected )", 6],
+    ["()", "Unexpected )", 1],
+    ["#work |", "Expected a search term", 7],
+    ["| #work", "Expected a search term", 0],
+    ["-|", "Unexpected |", 1],
+  ])("reports %j as %j at %i", (query, message, position) => {
+    let error: unknown;
+    try {
+      parseQuery(query);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(QuerySyntaxError);
+    expect(error).toMatchObject({ message, position });
+  });
+});
+
+describe("resolveQueryTags", () => {
+  it("matches names and paths case-insensitively and brings child tags along", () => {
+    const { tagIds, unknownTags } = resolveQueryTags(parseQuery("#WORK #work/design #nope"), tagDefinitions);
+    expect(tagIds.get("work")).toEqual(["work", "design"]);
+    expect(tagIds.get("work/design")).toEqual(["design"]);
+    expect(unknownTags).toEqual(["nope"]);
+  });
+});
+
+describe("searchApps", () => {
+  it("filters by tags with AND, OR and NOT", () => {
+    expect(names("#work")).toEqual(["Figma", "Slack", "Visual Studio Code"]);
+    expect(names("#work -#design")).toEqual(["Slack", "Visual Studio Code"]);
+    expect(names("#games | #design")).toEqual(["Figma", "Chess"]);
+    expect(names('#"side projects"')).toEqual(["Visual Studio Code"]);
+    expect(names("-#work")).toEqual(["Chess"]);
+  });
+
+  it("mixes tags with fuzzy free text", () => {
+    expect(names("#work code")).toEqual(["Visual Studio Code"]);
+    expect(names("(#games | #side) chess")).toEqual(["Chess"]);
+  });
+
+  it("ranks by the free text match, nudged by the boost", () => {
+    expect(names("sl")[0]).toBe("Slack");
+    expect(names("c")[0]).not.toBe("Visual Studio Code");
+    expect(search("c", (a) => (a === code ? 1 : 0)).apps[0]).toBe(code);
+  });
+
+  it("returns the syntax error and unknown tags instead of throwing", () => {
+    const broken = search("(#work");
+    expect(broken.apps).toEqual([]);
+    expect(broken.error).toMatchObject({ message: "Missing closing parenthesis", position: 0 });
+
+    const unknown = search("#nope | #games");
+    expect(unknown.unknownTags).toEqual(["nope"]);
+    expect(unknown.apps).toEqual([chess]);
+  });
+});
+
+describe("requiresTag", () => {
+  it("holds only when every match must carry a tag from the query", () => {
+    expect(requiresTag(parseQuery("#work"))).toBe(true);
+    expect(requiresTag(parseQuery("#work -#games code"))).toBe(true);
+    expect(requiresTag(parseQuery("#work | #design"))).toBe(true);
+    expect(requiresTag(parseQuery("-#games"))).toBe(false);
+    expect(requiresTag(parseQuery("-(-#games)"))).toBe(false);
+    expect(requiresTag(parseQuery("#work | code"))).toBe(false);
+    expect(requiresTag(parseQuery("code"))).toBe(false);
+    expect(requiresTag(parseQuery(""))).toBe(false);
+  });
+});
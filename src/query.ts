@@ -0,0 +1,362 @@
+import { Application } from "@raycast/api";
+import Fuse from "fuse.js";
+import { getAppDetails } from "./app-details";
+import { appKey } from "./helpers";
+import { getDescendantTagIds, getTagPath } from "./tags";
+import { AppDetailsMap, AppTags, TagDefinitions } from "./types";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Syntax                                   */
+/* -------------------------------------------------------------------------- */
+//   query   := or
+//   or      := and ( "|" and )*
+//   and     := unary unary*
+//   unary   := "-" unary | primary
+//   primary := "(" or ")" | #tag | #"tag name" | word | "quoted text"
+
+export type QueryNode =
+  | { type: "tag"; name: string; position: number }
+  | { type: "text"; value: string }
+  | { type: "not"; operand: QueryNode }
+  | { type: "and"; operands: QueryNode[] }
+  | { type: "or"; operands: QueryNode[] };
+
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super(message);
+    this.name = "QuerySyntaxError";
+  }
+}
+
+type Token =
+  | { type: "lparen" | "rparen" | "or" | "not"; position: number }
+  | { type: "tag" | "text"; value: string; position: number };
+
+const DELIMITERS = /[\s()|"]/;
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) throw new QuerySyntaxError("Missing closing quote", start);
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function readWord(input: string, start: number): { value: string; end: number } {
+  let end = start;
+  while (end < input.length && !DELIMITERS.test(input[end])) end++;
+  return { value: input.slice(start, end), end };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(") {
+      tokens.push({ type: "lparen", position: i++ });
+    } else if (char === ")") {
+      tokens.push({ type: "rparen", position: i++ });
+    } else if (char === "|") {
+      tokens.push({ type: "or", position: i++ });
+    } else if (char === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: "not", position: i++ });
+    } else if (char === "#") {
+      const { value, end } = input[i + 1] === '"' ? readQuoted(input, i + 1) : readWord(input, i + 1);
+      if (!value.trim()) throw new QuerySyntaxError("Expected a tag name after #", i);
+      tokens.push({ type: "tag", value: value.trim(), position: i });
+      i = end;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(input, i);
+      if (value.trim()) tokens.push({ type: "text", value: value.trim(), position: i });
+      i = end;
+    } else {
+      const { value, end } = readWord(input, i);
+      tokens.push({ type: "text", value, position: i });
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Parser                                   */
+/* -------------------------------------------------------------------------- */
+/**
+ * Parses a search bar query into a tree. Returns `null` for an empty query and
+ * throws a `QuerySyntaxError` pointing at the offending character otherwise.
+ */
+export function parseQuery(input: string): QueryNode | null {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) return null;
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const positionOf = (token?: Token) => token?.position ?? input.length;
+
+  function parseOr(): QueryNode {
+    const operands = [parseAnd()];
+    while (peek()?.type === "or") {
+      index++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: "or", operands };
+  }
+
+  function parseAnd(): QueryNode {
+    const operands: QueryNode[] = [];
+    while (peek() && peek().type !== "or" && peek().type !== "rparen") {
+      const node = parseUnary();
+      const previous = operands[operands.length - 1];
+      // Adjacent free text is searched as one phrase so Fuse can score it as a whole.
+      if (node.type === "text" && previous?.type === "text") previous.value = `${previous.value} ${node.value}`;
+      else operands.push(node);
+    }
+    if (operands.length === 0) {
+      const token = peek();
+      throw new QuerySyntaxError(
+        token?.type === "rparen" ? "Unexpected )" : "Expected a search term",
+        positionOf(token),
+      );
+    }
+    return operands.length === 1 ? operands[0] : { type: "and", operands };
+  }
+
+  function parseUnary(): QueryNode {
+    if (peek()?.type === "not") {
+      index++;
+      if (!peek()) throw new QuerySyntaxError("Expected a term after -", input.length);
+      return { type: "not", operand: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): QueryNode {
+    const token = tokens[index++];
+    switch (token.type) {
+      case "lparen": {
+        const node = parseOr();
+        if (peek()?.type !== "rparen") throw new QuerySyntaxError("Missing closing parenthesis", token.position);
+        index++;
+        return node;
+      }
+      case "tag":
+        return { type: "tag", name: token.value, position: token.position };
+      case "text":
+        return { type: "text", value: token.value };
+      default:
+        throw new QuerySyntaxError(`Unexpected ${token.type === "rparen" ? ")" : "|"}`, token.position);
+    }
+  }
+
+  const root = parseOr();
+  if (index < tokens.length) throw new QuerySyntaxError("Unexpected )", positionOf(peek()));
+  return root;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Evaluation                                 */
+/* -------------------------------------------------------------------------- */
+export function collectNodes<T extends QueryNode["type"]>(
+  node: QueryNode | null,
+  type: T,
+): Extract<QueryNode, { type: T }>[] {
+  if (!node) return [];
+  const own = node.type === type ? [node as Extract<QueryNode, { type: T }>] : [];
+  switch (node.type) {
+    case "not":
+      return [...own, ...collectNodes(node.operand, type)];
+    case "and":
+    case "or":
+      return [...own, ...node.operands.flatMap((operand) => collectNodes(operand, type))];
+    default:
+      return own;
+  }
+}
+
+/**
+ * Resolves every `#tag` in the query to tag ids. An exact (case-insensitive) name
+ * or full path wins; otherwise every tag whose path contains the term matches.
+ * A matched tag always brings its child tags along.
+ */
+export function resolveQueryTags(
+  node: QueryNode | null,
+  tagDefinitions: TagDefinitions,
+): { tagIds: Map<string, string[]>; unknownTags: string[] } {
+  const tagIds = new Map<string, string[]>();
+  const unknownTags: string[] = [];
+  const defs = Object.values(tagDefinitions).map((def) => ({
+    id: def.id,
+    name: def.name.toLowerCase(),
+    path: getTagPath(def.id, tagDefinitions).toLowerCase(),
+  }));
+
+  for (const { name } of collectNodes(node, "tag")) {
+    const key = name.toLowerCase();
+    if (tagIds.has(key)) continue;
+    const exact = defs.filter((def) => def.path === key || def.name === key);
+    const matched = exact.length > 0 ? exact : defs.filter((def) => def.path.includes(key));
+    const ids = new Set(matched.flatMap((def) => [def.id, ...getDescendantTagIds(def.id, tagDefinitions)]));
+    if (ids.size === 0) unknownTags.push(name);
+    tagIds.set(key, [...ids]);
+  }
+
+  return { tagIds, unknownTags };
+}
+
+export interface QueryContext {
+  tagIds: Map<string, string[]>;
+  appTagIds: string[];
+  matchesText: (value: string) => boolean;
+}
+
+export function evaluateQuery(node: QueryNode, context: QueryContext): boolean {
+  switch (node.type) {
+    case "tag": {
+      const ids = context.tagIds.get(node.name.toLowerCase()) ?? [];
+      return ids.some((id) => context.appTagIds.includes(id));
+    }
+    case "text":
+      return context.matchesText(node.value);
+    case "not":
+      return !evaluateQuery(node.operand, context);
+    case "and":
+      return node.operands.every((operand) => evaluateQuery(operand, context));
+    case "or":
+      return node.operands.some((operand) => evaluateQuery(operand, context));
+  }
+}
+
+/**
+ * Whether every app the query matches must carry one of its tags, e.g. `#work`
+ * or `#work -#games`, but not `-#games` or `#work | code`.
+ */
+export function requiresTag(node: QueryNode | null): boolean {
+  if (!node) return false;
+  switch (node.type) {
+    case "tag":
+      return true;
+    case "text":
+    case "not":
+      return false;
+    case "and":
+      return node.operands.some(requiresTag);
+    case "or":
+      return node.operands.every(requiresTag);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Search                                   */
+/* -------------------------------------------------------------------------- */
+/**
+ * How much each field counts in the Fuse index. A hit on a name or alias beats a
+ * hit on a keyword or tag name, which beats a hit somewhere in the bundle id.
+ */
+const SEARCH_KEY_WEIGHTS = {
+  name: 1,
+  displayName: 1,
+  aliases: 1,
+  keywords: 0.6,
+  tags: 0.4,
+  bundleId: 0.3,
+};
+
+/** Fuse index over app names plus the user's app details and each app's tag names */
+export function createAppSearchIndex(
+  apps: Application[],
+  { appDetails, tags, tagDefinitions }: { appDetails: AppDetailsMap; tags: AppTags; tagDefinitions: TagDefinitions },
+): Fuse<Application> {
+  const details = (app: Application) => getAppDetails(app, appDetails);
+  return new Fuse(apps, {
+    keys: [
+      { name: "name", weight: SEARCH_KEY_WEIGHTS.name },
+      { name: "displayName", weight: SEARCH_KEY_WEIGHTS.displayName, getFn: (app) => details(app).displayName ?? "" },
+      { name: "aliases", weight: SEARCH_KEY_WEIGHTS.aliases, getFn: (app) => details(app).aliases ?? [] },
+      { name: "keywords", weight: SEARCH_KEY_WEIGHTS.keywords, getFn: (app) => details(app).keywords ?? [] },
+      {
+        name: "tags",
+        weight: SEARCH_KEY_WEIGHTS.tags,
+        getFn: (app) =>
+          (tags[appKey(app)] ?? []).filter((tagId) => tagDefinitions[tagId]).map((tagId) => tagDefinitions[tagId].name),
+      },
+      { name: "bundleId", weight: SEARCH_KEY_WEIGHTS.bundleId, getFn: (app) => app.bundleId ?? "" },
+    ],
+    threshold: 0.4,
+    // "code" should find "Visual Studio Code" even though the match is far into the name.
+    ignoreLocation: true,
+    includeScore: true,
+  });
+}
+
+export interface SearchResult {
+  apps: Application[];
+  error?: QuerySyntaxError;
+  unknownTags: string[];
+  /** See `requiresTag` */
+  requiresTag: boolean;
+}
+
+/** How much a `boost` of 1 can improve a Fuse score (0 is a perfect match, 1 no match) */
+const BOOST_WEIGHT = 0.2;
+
+/**
+ * Runs a search bar query against the app list. Free text goes through Fuse and
+ * decides the ranking, nudged by `boost` (0–1); without free text the incoming
+ * order is kept.
+ */
+export function searchApps(
+  apps: Application[],
+  searchText: string,
+  {
+    fuse,
+    tags,
+    tagDefinitions,
+    boost,
+  }: {
+    fuse: Fuse<Application>;
+    tags: AppTags;
+    tagDefinitions: TagDefinitions;
+    boost?: (app: Application) => number;
+  },
+): SearchResult {
+  let node: QueryNode | null;
+  try {
+    node = parseQuery(searchText);
+  } catch (err) {
+    if (!(err instanceof QuerySyntaxError)) throw err;
+    return { apps: [], error: err, unknownTags: [], requiresTag: false };
+  }
+  if (!node) return { apps, unknownTags: [], requiresTag: false };
+
+  const { tagIds, unknownTags } = resolveQueryTags(node, tagDefinitions);
+  const scores = new Map<string, Map<string, number>>();
+  for (const { value } of collectNodes(node, "text")) {
+    if (scores.has(value)) continue;
+    scores.set(value, new Map(fuse.search(value).map((r) => [r.item.path, r.score ?? 0])));
+  }
+
+  const rank = (app: Application) =>
+    Math.min(...[...scores.values()].map((byPath) => byPath.get(app.path) ?? Infinity), Infinity) -
+    BOOST_WEIGHT * (boost?.(app) ?? 0);
+
+  const root = node;
+  const matched = apps.filter((app) =>
+    evaluateQuery(root, {
+      tagIds,
+      appTagIds: tags[appKey(app)] ?? [],
+      matchesText: (value) => scores.get(value)?.has(app.path) ?? false,
+    }),
+  );
+  if (scores.size > 0) {
+    const ranks = new Map(matched.map((app) => [app.path, rank(app)]));
+    matched.sort((a, b) => (ranks.get(a.path) === ranks.get(b.path) ? 0 : ranks.get(a.path)! - ranks.get(b.path)!));
+  }
+
+  return { apps: matched, unknownTags, requiresTag: requiresTag(node) };
+}
@@ -0,0 +1,105 @@
+import { Application } from "@raycast/api";
+import { describe, expect, it } from "vitest";
+import { applySmartTags, parseRules, ruleMatches } from "./smart-tags";
+import { TagDefinitions, TagRule } from "./types";
+
+const webstorm: Application = {
+  name: "WebStorm",
+  bundleId: "com.jetbrains.WebStorm",
+  path: "/Applications/WebStorm.app",
+};
+const notes: Application = { name: "Notes", bundleId: "com.apple.Notes", path: "/System/Applications/Notes.app" };
+const script: Application = { name: "Script", path: "/Users/me/Script.app" };
+
+describe("parseRules", () => {
+  it("reads globs, regexes and path prefixes, one per line", () => {
+    const { rules, errors } = parseRules(
+      "bundleId: com.jetbrains.*\n\n  name: /^adobe/i  \npath: /System/Applications",
+    );
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([
+      { field: "bundleId", kind: "glob", pattern: "com.jetbrains.*" },
+      { field: "name", kind: "regex", pattern: "/^adobe/i" },
+      { field: "path", kind: "prefix", pattern: "/System/Applications" },
+    ]);
+  });
+
+  it("treats a slash-wrapped path as a prefix, not a regex", () => {
+    expect(parseRules("path: /Applications/").rules).toEqual([
+      { field: "path", kind: "prefix", pattern: "/Applications/" },
+    ]);
+  });
+
+  it("reports unknown fields, missing patterns and invalid regexes by line", () => {
+    const { rules, errors } = parseRules("title: Notes\nname:\nbundleId: /([a-z/\nname: Notes");
+    expect(rules).toEqual([{ field: "name", kind: "glob", pattern: "Notes" }]);
+    expect(errors).toEqual([
+      'Line 1: start with "bundleId:", "path:", "name:"',
+      "Line 2: missing pattern",
+      "Line 3: invalid regular expression",
+    ]);
+  });
+});
+
+describe("ruleMatches", () => {
+  const rule = (field: TagRule["field"], kind: TagRule["kind"], pattern: string): TagRule => ({ field, kind, pattern });
+
+  it("matches globs against the whole value, ignoring case", () => {
+    expect(ruleMatches(rule("bundleId", "glob", "com.jetbrains.*"), webstorm)).toBe(true);
+    expect(ruleMatches(rule("bundleId", "glob", "COM.APPLE.NOTE?"), notes)).toBe(true);
+    expect(ruleMatches(rule("bundleId", "glob", "jetbrains"), webstorm)).toBe(false);
+    // A dot is literal, not "any character".
+    expect(ruleMatches(rule("bundleId", "glob", "com.apple.Notes"), { ...notes, bundleId: "comxapplexNotes" })).toBe(
+      false,
+    );
+  });
+
+  it("matches regexes with their flags", () => {
+    expect(ruleMatches(rule("bundleId", "regex", "/jetbrains/"), webstorm)).toBe(true);
+    expect(ruleMatches(rule("name", "regex", "/^web/"), webstorm)).toBe(false);
+    expect(ruleMatches(rule("name", "regex", "/^web/i"), webstorm)).toBe(true);
+  });
+
+  it("never matches with an invalid regex", () => {
+    expect(ruleMatches(rule("name", "regex", "/([a-z/"), webstorm)).toBe(false);
+  });
+
+  it("matches paths by prefix and names by glob", () => {
+    expect(ruleMatches(rule("path", "prefix", "/System/Applications"), notes)).toBe(true);
+    expect(ruleMatches(rule("path", "prefix", "/Applications"), notes)).toBe(false);
+    expect(ruleMatches(rule("name", "glob", "web*"), webstorm)).toBe(true);
+  });
+
+  it("never matches an app without the field", () => {
+    expect(ruleMatches(rule("bundleId", "glob", "*"), script)).toBe(false);
+  });
+});
+
+describe("applySmartTags", () => {
+  const tagDefinitions: TagDefinitions = {
+    ide: { id: "ide", name: "IDE", rules: [{ field: "bundleId", kind: "glob", pattern: "com.jetbrains.*" }] },
+    system: { id: "system", name: "System", rules: [{ field: "path", kind: "prefix", pattern: "/System" }] },
+    work: { id: "work", name: "Work" },
+  };
+
+  it("adds rule matches next to manual tags and records where each came from", () => {
+    const { tags, sources } = applySmartTags([webstorm, notes], { "com.apple.Notes": ["work"] }, {}, tagDefinitions);
+    expect(tags).toEqual({ "com.jetbrains.WebStorm": ["ide"], "com.apple.Notes": ["work", "system"] });
+    expect(sources["com.apple.Notes"]).toEqual({
+      work: { type: "manual" },
+      system: { type: "rule", rule: tagDefinitions.system.rules![0] },
+    });
+  });
+
+  it("lets a manual exclude win over a rule match, but never over a manual tag", () => {
+    const { tags, sources } = applySmartTags(
+      [webstorm, notes],
+      { "com.apple.Notes": ["system"] },
+      { "com.jetbrains.WebStorm": ["ide"], "com.apple.Notes": ["system"] },
+      tagDefinitions,
+    );
+    expect(tags["com.jetbrains.WebStorm"]).toBeUndefined();
+    expect(tags["com.apple.Notes"]).toEqual(["system"]);
+    expect(sources["com.apple.Notes"]).toEqual({ system: { type: "manual" } });
+  });
+});
@@ -0,0 +1,136 @@
+import { Application } from "@raycast/api";
+import { appKey } from "./helpers";
+import { getTagPath } from "./tags";
+import { AppTags, AppTagSources, TagDefinitions, TagRule, TagRuleField, TagSource } from "./types";
+
+const RULE_FIELDS: TagRuleField[] = ["bundleId", "path", "name"];
+const FIELD_LABELS: Record<TagRuleField, string> = { bundleId: "bundle id", path: "path", name: "name" };
+
+/* -------------------------------------------------------------------------- */
+/*                                Rule Syntax                                 */
+/* -------------------------------------------------------------------------- */
+// One rule per line, `<field>: <pattern>`:
+//   bundleId: com.jetbrains.*      glob (* and ?)
+//   name: /^adobe/i                regex when wrapped in slashes
+//   path: /System/Applications     paths always match by prefix
+
+export const RULE_SYNTAX_HELP =
+  "One rule per line: `bundleId: com.jetbrains.*`, `name: /^Adobe/i` (regex) or `path: /System/Applications` (prefix).";
+
+export function parseRules(text: string): { rules: TagRule[]; errors: string[] } {
+  const rules: TagRule[] = [];
+  const errors: string[] = [];
+
+  text.split("\n").forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    const separator = line.indexOf(":");
+    const field = line.slice(0, separator).trim() as TagRuleField;
+    const pattern = line.slice(separator + 1).trim();
+    if (separator === -1 || !RULE_FIELDS.includes(field)) {
+      errors.push(`Line ${index + 1}: start with ${RULE_FIELDS.map((f) => `"${f}:"`).join(", ")}`);
+      return;
+    }
+    if (!pattern) {
+      errors.push(`Line ${index + 1}: missing pattern`);
+      return;
+    }
+
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (field !== "path" && regex) {
+      try {
+        new RegExp(regex[1], regex[2]);
+      } catch {
+        errors.push(`Line ${index + 1}: invalid regular expression`);
+        return;
+      }
+      rules.push({ field, kind: "regex", pattern });
+    } else {
+      rules.push({ field, kind: field === "path" ? "prefix" : "glob", pattern });
+    }
+  });
+
+  return { rules, errors };
+}
+
+export function formatRules(rules: TagRule[] = []): string {
+  return rules.map((rule) => `${rule.field}: ${rule.pattern}`).join("\n");
+}
+
+export function describeRule(rule: TagRule): string {
+  const verb = rule.kind === "prefix" ? "starts with" : "matches";
+  return `${FIELD_LABELS[rule.field]} ${verb} ${rule.pattern}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Matching                                  */
+/* -------------------------------------------------------------------------- */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\/]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+export function ruleMatches(rule: TagRule, app: Application): boolean {
+  const value = app[rule.field];
+  if (!value) return false;
+  switch (rule.kind) {
+    case "prefix":
+      return value.startsWith(rule.pattern);
+    case "glob":
+      return globToRegExp(rule.pattern).test(value);
+    case "regex": {
+      const [, source, flags] = /^\/(.+)\/([a-z]*)$/.exec(rule.pattern) ?? [];
+      try {
+        return source !== undefined && new RegExp(source, flags).test(value);
+      } catch {
+        return false;
+      }
+    }
+  }
+}
+
+/** Smart tags whose rules pick up the app, with the first rule that matched */
+export function matchSmartTags(app: Application, tagDefinitions: TagDefinitions): { tagId: string; rule: TagRule }[] {
+  return Object.values(tagDefinitions).flatMap((def) => {
+    const rule = def.rules?.find((r) => ruleMatches(r, app));
+    return rule ? [{ tagId: def.id, rule }] : [];
+  });
+}
+
+/**
+ * Combines manual assignments with rule matches. Manual excludes only remove rule
+ * matches; a tag assigned by hand always stays.
+ */
+export function applySmartTags(
+  apps: Application[],
+  appTags: AppTags,
+  appTagExcludes: AppTags,
+  tagDefinitions: TagDefinitions,
+): { tags: AppTags; sources: AppTagSources } {
+  const tags: AppTags = { ...appTags };
+  const sources: AppTagSources = {};
+
+  for (const [key, tagIds] of Object.entries(appTags)) {
+    sources[key] = Object.fromEntries(tagIds.map((id): [string, TagSource] => [id, { type: "manual" }]));
+  }
+
+  for (const app of apps) {
+    const key = appKey(app);
+    const excluded = appTagExcludes[key] ?? [];
+    for (const { tagId, rule } of matchSmartTags(app, tagDefinitions)) {
+      if (excluded.includes(tagId) || tags[key]?.includes(tagId)) continue;
+      tags[key] = [...(tags[key] ?? []), tagId];
+      sources[key] = { ...sources[key], [tagId]: { type: "rule", rule } };
+    }
+  }
+
+  return { tags, sources };
+}
+
+export function describeTagSource(tagId: string, source: TagSource | undefined, tagDefinitions: TagDefinitions) {
+  const path = getTagPath(tagId, tagDefinitions);
+  return source?.type === "rule" ? `${path} (smart: ${describeRule(source.rule)})` : `${path} (assigned manually)`;
+}
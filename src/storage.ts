@@ -0,0 +1,34 @@
+import { LocalStorage } from "@raycast/api";
+
+/** The key/value store tag data is persisted in */
+export interface StorageBackend {
+  getItem(key: string): Promise<string | undefined>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  allItems(): Promise<Record<string, string>>;
+}
+
+export const localStorageBackend: StorageBackend = {
+  getItem: (key) => LocalStorage.getItem<string>(key),
+  setItem: (key, value) => LocalStorage.setItem(key, value),
+  removeItem: (key) => LocalStorage.removeItem(key),
+  allItems: () => LocalStorage.allItems<Record<string, string>>(),
+};
+
+/** Keeps everything in a plain object; `items` is exposed so callers can inspect or seed it */
+export function createMemoryBackend(initial: Record<string, string> = {}): StorageBackend & {
+  items: Record<string, string>;
+} {
+  const items = { ...initial };
+  return {
+    items,
+    getItem: async (key) => items[key],
+    setItem: async (key, value) => {
+      items[key] = value;
+    },
+    removeItem: async (key) => {
+      delete items[key];
+    },
+    allItems: async () => ({ ...items }),
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+import { DATABASE_KEY, HISTORY_KEY } from "./constants";
+import { createMemoryBackend, StorageBackend } from "./storage";
+import { createTagStore, TagStateChange } from "./tag-store";
+
+/** Fails the next write of `failKey`, then behaves like a memory backend again */
+function createFlakyBackend(failKey: string) {
+  const memory = createMemoryBackend();
+  let failNext = false;
+  const backend: StorageBackend = {
+    ...memory,
+    async setItem(key, value) {
+      if (key === failKey && failNext) {
+        failNext = false;
+        throw new Error("Disk full");
+      }
+      await memory.setItem(key, value);
+    },
+  };
+  return { backend, items: memory.items, failNextWrite: () => (failNext = true) };
+}
+
+describe("createTagStore", () => {
+  it("creates a tag at the end of the order and records it", async () => {
+    const store = createTagStore(createMemoryBackend());
+    const first = await store.createTag({ name: "Work", color: "#ff0000" });
+    const second = await store.createTag({ name: "Games" });
+
+    expect(second.database.tagDefinitions[first.id]).toEqual({ id: first.id, name: "Work", color: "#ff0000" });
+    expect(second.database.tagOrder).toEqual([first.id, second.id]);
+    expect(second.operation?.label).toBe("Create Tag Games");
+    expect((await store.history()).map((op) => op.label)).toEqual(["Create Tag Games", "Create Tag Work"]);
+  });
+
+  it("edits a tag and resolves to undefined for a missing one", async () => {
+    const store = createTagStore(createMemoryBackend());
+    const { id } = await store.createTag({ name: "Work" });
+
+    const change = await store.editTag(id, { name: "Office", color: "#00ff00" });
+    expect(change?.database.tagDefinitions[id]).toEqual({ id, name: "Office", color: "#00ff00" });
+    expect(await store.editTag("missing", { name: "Nope" })).toBeUndefined();
+  });
+
+  it("deletes a tag with its assignments and promotes its children", async () => {
+    const store = createTagStore(createMemoryBackend());
+    const parent = await store.createTag({ name: "Work" });
+    const child = await store.createTag({ name: "Chat", parentId: parent.id });
+    await store.setAppTags({ name: "Slack", path: "/Applications/Slack.app", bundleId: "com.slack" }, [parent.id], []);
+
+    const { database } = await store.deleteTag(parent.id);
+    expect(database.tagDefinitions[parent.id]).toBeUndefined();
+    expect(database.tagDefinitions[child.id].parentId).toBeUndefined();
+    expect(database.tagOrder).toEqual([child.id]);
+    expect(database.appTags).toEqual({});
+  });
+
+  it("renames promoted children that clash with their new siblings", async () => {
+    const store = createTagStore(createMemoryBackend());
+    const work = await store.createTag({ name: "Work" });
+    const nested = await store.createTag({ name: "Dev", parentId: work.id });
+    const root = await store.createTag({ name: "dev" });
+    const games = await store.createTag({ name: "Games" });
+
+    const merged = await store.mergeTags(work.id, games.id);
+    expect(merged?.database.tagDefinitions[nested.id]).toEqual({ id: nested.id, name: "Dev 2" });
+    expect(merged?.database.tagDefinitions[root.id].name).toBe("dev");
+
+    await store.undo(merged!.operation!.id);
+    const { database } = await store.deleteTag(work.id);
+    expect(database.tagDefinitions[nested.id]).toEqual({ id: nested.id, name: "Dev 2" });
+  });
+
+  it("reorders tags", async () => {
+    const store = createTagStore(createMemoryBackend());
+    const a = await store.createTag({ name: "A" });
+    const b = await store.createTag({ name: "B" });
+
+    const { database, operation } = await store.reorderTags([b.id, a.id]);
+    expect(database.tagOrder).toEqual([b.id, a.id]);
+    expect(operation?.inverse.tagOrder).toEqual([a.id, b.id]);
+  });
+
+  it("undoes a change and everything newer", async () => {
+    const store = createTagStore(createMemoryBackend());
+    const a = await store.createTag({ name: "A" });
+    await store.createTag({ name: "B" });
+
+    const result = await store.undo(a.operation!.id);
+    expect(result?.undone).toHaveLength(2);
+    expect(result?.database.tagDefinitions).toEqual({});
+    expect(await store.history()).toEqual([]);
+  });
+
+  it("notifies subscribers with the parts that changed", async () => {
+    const store = createTagStore(createMemoryBackend());
+    await store.load();
+    const changes: TagStateChange[] = [];
+    store.subscribe((change) => changes.push(change));
+
+    await store.createTag({ name: "Work" });
+    expect(changes).toHaveLength(1);
+    expect(changes[0].origin).toBe("update");
+    expect(changes[0].changed).toEqual(["tagDefinitions", "tagOrder"]);
+  });
+
+  it("leaves the stored and shared state untouched when the database write fails", async () => {
+    const { backend, items, failNextWrite } = createFlakyBackend(DATABASE_KEY);
+    const store = createTagStore(backend);
+    const { id } = await store.createTag({ name: "Work" });
+    const stored = items[DATABASE_KEY];
+
+    failNextWrite();
+    await expect(store.editTag(id, { name: "Office" })).rejects.toThrow("Disk full");
+    expect(items[DATABASE_KEY]).toBe(stored);
+    expect(store.snapshot()?.tagDefinitions[id].name).toBe("Work");
+
+    // The next change starts from the last good state.
+    const change = await store.createTag({ name: "Games" });
+    expect(Object.values(change.database.tagDefinitions).map((def) => def.name)).toEqual(["Work", "Games"]);
+    expect((await store.history()).map((op) => op.label)).toEqual(["Create Tag Games", "Create Tag Work"]);
+  });
+
+  it("publishes a saved change even when recording it in the history fails", async () => {
+    const { backend, failNextWrite } = createFlakyBackend(HISTORY_KEY);
+    const store = createTagStore(backend);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    failNextWrite();
+    await expect(store.createTag({ name: "Work" })).rejects.toThrow("Disk full");
+    expect(listener).toHaveBeenCalledOnce();
+    expect(Object.values(store.snapshot()!.tagDefinitions).map((def) => def.name)).toEqual(["Work"]);
+    expect(await store.history()).toEqual([]);
+  });
+});
@@ -0,0 +1,385 @@
+import { Application } from "@raycast/api";
+import { isEmptyAppDetails } from "./app-details";
+import { applyBulkTagChange } from "./bulk-tags";
+import { loadDatabase } from "./database";
+import { preferredStorageBackend } from "./file-sync";
+import { appKey, generateId } from "./helpers";
+import { applyPatch, clearHistory, loadHistory, undoOperations, updateDatabaseWithHistory } from "./history";
+import { applyImport, summarizeImport } from "./import-export";
+import { relinkEntry, removeEntries } from "./orphans";
+import { localStorageBackend, StorageBackend } from "./storage";
+import { findNameConflict, getDescendantTagIds, getTagPath, uniqueTagName } from "./tags";
+import {
+  AppDetails,
+  AppTags,
+  BulkTagMode,
+  ChildTagStrategy,
+  DatabasePatch,
+  ImportMode,
+  ImportSummary,
+  TagDatabase,
+  TagDefinitions,
+  TagImport,
+  TagInput,
+  TagOperation,
+  TagRule,
+} from "./types";
+
+/** The database after a change, plus the recorded operation when something changed */
+export interface TagChange {
+  database: TagDatabase;
+  operation?: TagOperation;
+}
+
+export type TagStatePart =
+  | "tagDefinitions"
+  | "tagOrder"
+  | "appTags"
+  | "appTagExcludes"
+  | "appDetails"
+  | "hiddenApps"
+  | "ignoreRules"
+  | "pinnedApps";
+
+/** Sent to subscribers whenever the shared tag state changes */
+export interface TagStateChange {
+  database: TagDatabase;
+  /** The parts that differ from the previous state; all of them on the first load */
+  changed: TagStatePart[];
+  /** `load` when the stored data was (re)read, `update` after a change or undo */
+  origin: "load" | "update";
+  operation?: TagOperation;
+}
+
+export type TagStateListener = (change: TagStateChange) => void;
+
+/**
+ * Owns every read and write of tag data. Each change rewrites the whole database
+ * document in one write, and changes run one at a time so they can't interleave.
+ */
+export interface TagStore {
+  /** Reads the database and notifies subscribers if it differs from the shared state */
+  load(): Promise<TagDatabase>;
+  /** The shared state, `undefined` until the first load */
+  snapshot(): TagDatabase | undefined;
+  /** Returns a function that removes the listener again */
+  subscribe(listener: TagStateListener): () => void;
+  createTag(input: TagInput): Promise<TagChange & { id: string }>;
+  /** Resolves to `undefined` when the tag no longer exists */
+  editTag(id: string, input: TagInput): Promise<TagChange | undefined>;
+  deleteTag(id: string, children?: ChildTagStrategy): Promise<TagChange>;
+  /** Moves every assignment and rule of `sourceId` onto `targetId`, then deletes the source */
+  mergeTags(sourceId: string, targetId: string): Promise<TagChange>;
+  /** Copies a tag and its assignments under a free name next to the original */
+  duplicateTag(id: string): Promise<TagChange & { id: string }>;
+  reorderTags(order: string[]): Promise<TagChange>;
+  setAppTags(app: Application, tagIds: string[], excludedTagIds: string[]): Promise<TagChange>;
+  /** Empty details remove the app's entry */
+  setAppDetails(app: Application, details: AppDetails): Promise<TagChange>;
+  bulkAssignTag(tagId: string, mode: BulkTagMode, apps: Application[]): Promise<TagChange>;
+  hideApps(apps: Application[]): Promise<TagChange>;
+  /** Only undoes hiding by hand; apps matching an ignore rule stay hidden */
+  unhideApps(apps: Application[]): Promise<TagChange>;
+  setIgnoreRules(rules: TagRule[]): Promise<TagChange>;
+  /** Adds the app at the end of the Favorites */
+  pinApp(app: Application): Promise<TagChange>;
+  unpinApp(app: Application): Promise<TagChange>;
+  reorderPins(order: string[]): Promise<TagChange>;
+  /** Writes arbitrary values back, e.g. to resolve a sync conflict; recorded like any other change */
+  applyPatch(label: string, patch: DatabasePatch): Promise<TagChange>;
+  /** Matches imported tags to existing ones by path; see `applyImport` */
+  importTags(data: TagImport, mode: ImportMode): Promise<TagChange & { summary: ImportSummary }>;
+  relinkEntry(fromKey: string, toApp: Application): Promise<TagChange>;
+  removeEntries(keys: string[]): Promise<TagChange>;
+  history(): Promise<TagOperation[]>;
+  clearHistory(): Promise<void>;
+  /** Undoes `operationId` and everything newer; `undefined` if it is no longer in the history */
+  undo(operationId: string): Promise<{ database: TagDatabase; undone: TagOperation[] } | undefined>;
+}
+
+const TAG_STATE_PARTS: TagStatePart[] = [
+  "tagDefinitions",
+  "tagOrder",
+  "appTags",
+  "appTagExcludes",
+  "appDetails",
+  "hiddenApps",
+  "ignoreRules",
+  "pinnedApps",
+];
+
+function changedParts(previous: TagDatabase | undefined, next: TagDatabase): TagStatePart[] {
+  if (!previous) return TAG_STATE_PARTS;
+  return TAG_STATE_PARTS.filter((part) => JSON.stringify(previous[part]) !== JSON.stringify(next[part]));
+}
+
+function tagName(id: string, tagDefinitions: TagDefinitions): string {
+  return tagDefinitions[id] ? getTagPath(id, tagDefinitions) : "tag";
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Pure Changes                                 */
+/* -------------------------------------------------------------------------- */
+export function withTagDeleted(db: TagDatabase, id: string, children: ChildTagStrategy): TagDatabase {
+  const parentId = db.tagDefinitions[id]?.parentId;
+  const removed = [id, ...(children === "delete" ? getDescendantTagIds(id, db.tagDefinitions) : [])];
+  const tagDefinitions: TagDefinitions = {};
+  for (const def of Object.values(db.tagDefinitions)) {
+    if (removed.includes(def.id)) continue;
+    tagDefinitions[def.id] = def.parentId === id ? { ...def, parentId } : def;
+  }
+  // A promoted child that clashes with its new siblings is renamed, e.g. `Work/Dev` next to `Dev` becomes `Dev 2`.
+  for (const def of Object.values(tagDefinitions)) {
+    if (db.tagDefinitions[def.id].parentId !== id || !findNameConflict(def.name, parentId, tagDefinitions, def.id))
+      continue;
+    tagDefinitions[def.id] = { ...def, name: uniqueTagName(def.name, parentId, tagDefinitions) };
+  }
+  // Entries left without any tag are dropped instead of being rewritten as empty lists.
+  const withoutRemoved = (appTags: AppTags) =>
+    Object.fromEntries(
+      Object.entries(appTags)
+        .map(([key, tagIds]) => [key, tagIds.filter((tagId) => !removed.includes(tagId))] as const)
+        .filter(([, tagIds]) => tagIds.length > 0),
+    );
+  return {
+    ...db,
+    tagDefinitions,
+    appTags: withoutRemoved(db.appTags),
+    appTagExcludes: withoutRemoved(db.appTagExcludes),
+    tagOrder: db.tagOrder.filter((tagId) => !removed.includes(tagId)),
+  };
+}
+
+function replaceTagId(appTags: AppTags, fromId: string, toId: string): AppTags {
+  return Object.fromEntries(
+    Object.entries(appTags).map(([key, tagIds]) => [
+      key,
+      tagIds.includes(fromId) ? [...new Set(tagIds.map((tagId) => (tagId === fromId ? toId : tagId)))] : tagIds,
+    ]),
+  );
+}
+
+/** Children of the source move up a level, the same as deleting it with "promote", and are renamed on a clash */
+export function withTagsMerged(db: TagDatabase, sourceId: string, targetId: string): TagDatabase {
+  const source = db.tagDefinitions[sourceId];
+  const target = db.tagDefinitions[targetId];
+  if (!source || !target || sourceId === targetId) return db;
+
+  const rules = [...(target.rules ?? [])];
+  for (const rule of source.rules ?? []) {
+    if (!rules.some((r) => r.field === rule.field && r.kind === rule.kind && r.pattern === rule.pattern))
+      rules.push(rule);
+  }
+  const merged: TagDatabase = {
+    ...db,
+    tagDefinitions: { ...db.tagDefinitions, [targetId]: { ...target, rules: rules.length > 0 ? rules : undefined } },
+    appTags: replaceTagId(db.appTags, sourceId, targetId),
+    appTagExcludes: replaceTagId(db.appTagExcludes, sourceId, targetId),
+  };
+  return withTagDeleted(merged, sourceId, "promote");
+}
+
+export function withTagDuplicated(db: TagDatabase, id: string, copyId: string): TagDatabase {
+  const original = db.tagDefinitions[id];
+  if (!original) return db;
+  const copy = {
+    ...original,
+    id: copyId,
+    name: uniqueTagName(`${original.name} Copy`, original.parentId, db.tagDefinitions),
+    // Shortcuts have to stay unique.
+    shortcut: undefined,
+  };
+  const withCopy = (appTags: AppTags) =>
+    Object.fromEntries(
+      Object.entries(appTags).map(([key, tagIds]) => [key, tagIds.includes(id) ? [...tagIds, copyId] : tagIds]),
+    );
+  const index = db.tagOrder.indexOf(id);
+  return {
+    ...db,
+    tagDefinitions: { ...db.tagDefinitions, [copyId]: copy },
+    tagOrder: [...db.tagOrder.slice(0, index + 1), copyId, ...db.tagOrder.slice(index + 1)],
+    appTags: withCopy(db.appTags),
+    appTagExcludes: withCopy(db.appTagExcludes),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Store                                    */
+/* -------------------------------------------------------------------------- */
+export function createTagStore(backend: StorageBackend = localStorageBackend): TagStore {
+  let queue: Promise<unknown> = Promise.resolve();
+  let current: TagDatabase | undefined;
+  const listeners = new Set<TagStateListener>();
+
+  function publish(database: TagDatabase, origin: TagStateChange["origin"], operation?: TagOperation) {
+    const changed = changedParts(current, database);
+    current = database;
+    if (changed.length === 0) return;
+    for (const listener of listeners) listener({ database, changed, origin, operation });
+  }
+
+  /**
+   * Runs after every earlier change has settled. Each run reads the database
+   * fresh from the backend, so a write that failed leaves nothing half-applied
+   * and the next change starts from the last good state.
+   */
+  function serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  }
+
+  function commit(label: string | ((before: TagDatabase) => string), update: (db: TagDatabase) => TagDatabase) {
+    return serialize(async () => {
+      // Published before the history is written, so views never lag behind a saved change.
+      return updateDatabaseWithHistory(label, update, backend, (database, operation) =>
+        publish(database, "update", operation),
+      );
+    });
+  }
+
+  return {
+    load: () =>
+      serialize(async () => {
+        const database = await loadDatabase(backend);
+        publish(database, "load");
+        return database;
+      }),
+
+    snapshot: () => current,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async createTag(input) {
+      const id = generateId();
+      const change = await commit(`Create Tag ${input.name}`, (db) => ({
+        ...db,
+        tagDefinitions: { ...db.tagDefinitions, [id]: { ...input, id } },
+        tagOrder: [...db.tagOrder, id],
+      }));
+      return { ...change, id };
+    },
+
+    async editTag(id, input) {
+      let found = false;
+      const change = await commit(`Edit Tag ${input.name}`, (db) => {
+        if (!db.tagDefinitions[id]) return db;
+        found = true;
+        return { ...db, tagDefinitions: { ...db.tagDefinitions, [id]: { ...input, id } } };
+      });
+      return found ? change : undefined;
+    },
+
+    deleteTag: (id, children = "promote") =>
+      commit(
+        (before) => `Delete Tag ${tagName(id, before.tagDefinitions)}`,
+        (db) => withTagDeleted(db, id, children),
+      ),
+
+    mergeTags: (sourceId, targetId) =>
+      commit(
+        (before) =>
+          `Merge ${tagName(sourceId, before.tagDefinitions)} into ${tagName(targetId, before.tagDefinitions)}`,
+        (db) => withTagsMerged(db, sourceId, targetId),
+      ),
+
+    async duplicateTag(id) {
+      const copyId = generateId();
+      const change = await commit(
+        (before) => `Duplicate Tag ${tagName(id, before.tagDefinitions)}`,
+        (db) => withTagDuplicated(db, id, copyId),
+      );
+      return { ...change, id: copyId };
+    },
+
+    reorderTags: (order) => commit("Reorder Tags", (db) => ({ ...db, tagOrder: order })),
+
+    setAppTags: (app, tagIds, excludedTagIds) =>
+      commit(`Edit Tags of ${app.name}`, (db) => ({
+        ...db,
+        appTags: { ...db.appTags, [appKey(app)]: tagIds },
+        appTagExcludes: { ...db.appTagExcludes, [appKey(app)]: excludedTagIds },
+      })),
+
+    setAppDetails: (app, details) =>
+      commit(`Edit Details of ${app.name}`, (db) => {
+        const appDetails = { ...db.appDetails };
+        if (isEmptyAppDetails(details)) delete appDetails[appKey(app)];
+        else appDetails[appKey(app)] = details;
+        return { ...db, appDetails };
+      }),
+
+    bulkAssignTag: (tagId, mode, apps) =>
+      commit(
+        (before) =>
+          `${mode === "add" ? "Added" : "Removed"} ${tagName(tagId, before.tagDefinitions)} ${mode === "add" ? "to" : "from"} ${apps.length} app(s)`,
+        (db) => applyBulkTagChange(db, apps, tagId, mode),
+      ),
+
+    hideApps: (apps) =>
+      commit(apps.length === 1 ? `Hide ${apps[0].name}` : `Hide ${apps.length} apps`, (db) => ({
+        ...db,
+        hiddenApps: [...new Set([...db.hiddenApps, ...apps.map(appKey)])],
+      })),
+
+    unhideApps: (apps) =>
+      commit(apps.length === 1 ? `Restore ${apps[0].name}` : `Restore ${apps.length} apps`, (db) => {
+        const keys = apps.map(appKey);
+        return { ...db, hiddenApps: db.hiddenApps.filter((key) => !keys.includes(key)) };
+      }),
+
+    setIgnoreRules: (rules) => commit("Edit Ignore Rules", (db) => ({ ...db, ignoreRules: rules })),
+
+    pinApp: (app) =>
+      commit(`Pin ${app.name}`, (db) =>
+        db.pinnedApps.includes(appKey(app)) ? db : { ...db, pinnedApps: [...db.pinnedApps, appKey(app)] },
+      ),
+
+    unpinApp: (app) =>
+      commit(`Unpin ${app.name}`, (db) => ({
+        ...db,
+        pinnedApps: db.pinnedApps.filter((key) => key !== appKey(app)),
+      })),
+
+    reorderPins: (order) => commit("Reorder Favorites", (db) => ({ ...db, pinnedApps: order })),
+
+    applyPatch: (label, patch) => commit(label, (db) => applyPatch(db, patch)),
+
+    async importTags(data, mode) {
+      // Set by the update, which always runs before the commit resolves.
+      let summary!: ImportSummary;
+      const change = await commit(
+        `${mode === "merge" ? "Merge" : "Replace"} Tags from ${data.format.toUpperCase()}`,
+        (db) => {
+          const imported = applyImport(db, data, mode);
+          summary = summarizeImport(db, imported);
+          return imported;
+        },
+      );
+      return { ...change, summary };
+    },
+
+    relinkEntry: (fromKey, toApp) =>
+      commit(`Re-Link Tags to ${toApp.name}`, (db) => relinkEntry(db, fromKey, appKey(toApp))),
+
+    removeEntries: (keys) =>
+      commit(`Removed ${keys.length} orphaned entr${keys.length === 1 ? "y" : "ies"}`, (db) => removeEntries(db, keys)),
+
+    history: () => serialize(() => loadHistory(backend)),
+    clearHistory: () => serialize(() => clearHistory(backend)),
+    undo: (operationId) =>
+      serialize(async () => {
+        const result = await undoOperations(operationId, backend);
+        if (result) publish(result.database, "update");
+        return result;
+      }),
+  };
+}
+
+/** The store every view of a command shares, synced with the file from preferences if one is set */
+export const tagStore = createTagStore(preferredStorageBackend());
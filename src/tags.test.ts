@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { findTag } from "./tags";
+import { TagDefinitions } from "./types";
+
+const tagDefinitions: TagDefinitions = {
+  work: { id: "work", name: "Work" },
+  design: { id: "design", name: "Design", parentId: "work" },
+  games: { id: "games", name: "Games" },
+};
+const tagOrder = ["work", "design", "games"];
+
+describe("findTag", () => {
+  it("prefers an exact name or path, then a prefix, then a substring", () => {
+    expect(findTag("#design", tagDefinitions, tagOrder)?.id).toBe("design");
+    expect(findTag("work/design", tagDefinitions, tagOrder)?.id).toBe("design");
+    expect(findTag("ga", tagDefinitions, tagOrder)?.id).toBe("games");
+    expect(findTag("k/des", tagDefinitions, tagOrder)?.id).toBe("design");
+  });
+
+  it("falls back to a fuzzy match unless that is turned off", () => {
+    expect(findTag("gmaes", tagDefinitions, tagOrder)?.id).toBe("games");
+    expect(findTag("gmaes", tagDefinitions, tagOrder, { fuzzy: false })).toBeUndefined();
+    expect(findTag("games", tagDefinitions, tagOrder, { fuzzy: false })?.id).toBe("games");
+  });
+});
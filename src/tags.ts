@@ -0,0 +1,210 @@
+import { Icon, Image, Keyboard } from "@raycast/api";
+import Fuse from "fuse.js";
+import { TagDefinition, TagDefinitions } from "./types";
+
+export const TAG_PATH_SEPARATOR = "/";
+/** Separates an app's tag paths in a CSV export, so tag names can't contain it either */
+export const TAG_LIST_SEPARATOR = ";";
+export const DEFAULT_TAG_COLOR = "#8E8E93";
+/** Names of every Raycast icon a tag can use */
+export const TAG_ICON_NAMES = Object.keys(Icon).sort() as (keyof typeof Icon)[];
+
+export function getTagAncestors(id: string, tagDefinitions: TagDefinitions): TagDefinition[] {
+  const ancestors: TagDefinition[] = [];
+  const seen = new Set([id]);
+  let parentId = tagDefinitions[id]?.parentId;
+  while (parentId && tagDefinitions[parentId] && !seen.has(parentId)) {
+    seen.add(parentId);
+    ancestors.unshift(tagDefinitions[parentId]);
+    parentId = tagDefinitions[parentId].parentId;
+  }
+  return ancestors;
+}
+
+/** Full path of a tag, e.g. `Work/Design` */
+export function getTagPath(id: string, tagDefinitions: TagDefinitions): string {
+  const def = tagDefinitions[id];
+  if (!def) return "";
+  return [...getTagAncestors(id, tagDefinitions), def].map((d) => d.name).join(TAG_PATH_SEPARATOR);
+}
+
+/** A tag's own color, or the nearest ancestor's when it has none */
+export function getTagColor(id: string, tagDefinitions: TagDefinitions): string {
+  const def = tagDefinitions[id];
+  if (def?.color) return def.color;
+  const ancestor = getTagAncestors(id, tagDefinitions)
+    .reverse()
+    .find((d) => d.color);
+  return ancestor?.color ?? DEFAULT_TAG_COLOR;
+}
+
+function isIconName(name: string): name is keyof typeof Icon {
+  return Object.prototype.hasOwnProperty.call(Icon, name);
+}
+
+/** The tag's Raycast icon tinted with its color, or its emoji as is */
+export function getTagIcon(id: string, tagDefinitions: TagDefinitions): Image.ImageLike {
+  const icon = tagDefinitions[id]?.icon;
+  const tintColor = getTagColor(id, tagDefinitions);
+  if (!icon) return { source: Icon.Tag, tintColor };
+  return isIconName(icon) ? { source: Icon[icon], tintColor } : icon;
+}
+
+/** Trims and collapses runs of whitespace, so "Dev  Tools " is stored as "Dev Tools" */
+export function cleanTagName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+function nameKey(name: string): string {
+  return cleanTagName(name).toLowerCase();
+}
+
+/**
+ * The sibling that already uses `name`, ignoring case and whitespace. Names only
+ * have to be unique under the same parent, so every tag path stays unique.
+ */
+export function findNameConflict(
+  name: string,
+  parentId: string | undefined,
+  tagDefinitions: TagDefinitions,
+  exceptId?: string,
+): TagDefinition | undefined {
+  return Object.values(tagDefinitions).find(
+    (def) =>
+      def.id !== exceptId &&
+      (def.parentId ?? undefined) === (parentId || undefined) &&
+      nameKey(def.name) === nameKey(name),
+  );
+}
+
+/** `name`, or `name 2`, `name 3`, … whichever is free among the siblings */
+export function uniqueTagName(name: string, parentId: string | undefined, tagDefinitions: TagDefinitions): string {
+  let candidate = cleanTagName(name);
+  for (let n = 2; findNameConflict(candidate, parentId, tagDefinitions); n++) {
+    candidate = `${cleanTagName(name)} ${n}`;
+  }
+  return candidate;
+}
+
+/** A single lowercase letter or digit, which Raycast accepts as a shortcut key */
+export function isValidTagShortcut(key: string | undefined): key is Keyboard.KeyEquivalent {
+  return key !== undefined && /^[a-z0-9]$/.test(key);
+}
+
+/** The other tag already using `key` as its quick-filter shortcut */
+export function findShortcutOwner(
+  key: string,
+  tagDefinitions: TagDefinitions,
+  exceptId?: string,
+): TagDefinition | undefined {
+  return Object.values(tagDefinitions).find((def) => def.id !== exceptId && def.shortcut === key);
+}
+
+export function getChildTagIds(id: string, tagDefinitions: TagDefinitions): string[] {
+  return Object.values(tagDefinitions)
+    .filter((def) => def.parentId === id)
+    .map((def) => def.id);
+}
+
+export function getDescendantTagIds(id: string, tagDefinitions: TagDefinitions): string[] {
+  const descendants: string[] = [];
+  const queue = getChildTagIds(id, tagDefinitions);
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (next === id || descendants.includes(next)) continue;
+    descendants.push(next);
+    queue.push(...getChildTagIds(next, tagDefinitions));
+  }
+  return descendants;
+}
+
+/** A tag may not become a child of itself or of one of its own descendants */
+export function canBeParent(parentId: string, id: string, tagDefinitions: TagDefinitions): boolean {
+  return parentId !== id && !getDescendantTagIds(id, tagDefinitions).includes(parentId);
+}
+
+/**
+ * Depth-first walk of the tag tree. Siblings keep their relative position in `tagOrder`.
+ */
+export function flattenTagTree(
+  tagDefinitions: TagDefinitions,
+  tagOrder: string[],
+): { def: TagDefinition; depth: number; path: string }[] {
+  const ordered = tagOrder.filter((id) => tagDefinitions[id]);
+  const isRoot = (def: TagDefinition) => !def.parentId || !tagDefinitions[def.parentId];
+  const result: { def: TagDefinition; depth: number; path: string }[] = [];
+
+  const visit = (def: TagDefinition, depth: number) => {
+    if (result.some((entry) => entry.def.id === def.id)) return;
+    result.push({ def, depth, path: getTagPath(def.id, tagDefinitions) });
+    for (const id of ordered) {
+      if (tagDefinitions[id].parentId === def.id) visit(tagDefinitions[id], depth + 1);
+    }
+  };
+
+  for (const id of ordered) {
+    if (isRoot(tagDefinitions[id])) visit(tagDefinitions[id], 0);
+  }
+  return result;
+}
+
+export type TagMove = "up" | "down" | "top" | "bottom";
+
+/**
+ * Moves a tag among its siblings. Only the slots the siblings already occupy in
+ * `tagOrder` are reshuffled, so other branches keep their positions.
+ */
+export function moveTag(id: string, move: TagMove, tagDefinitions: TagDefinitions, tagOrder: string[]): string[] {
+  const parentId = tagDefinitions[id]?.parentId;
+  const isSibling = (tagId: string) => tagDefinitions[tagId] && tagDefinitions[tagId].parentId === parentId;
+  const siblings = tagOrder.filter(isSibling);
+  const index = siblings.indexOf(id);
+  if (index === -1) return tagOrder;
+
+  const reordered = siblings.filter((tagId) => tagId !== id);
+  const target = { up: index - 1, down: index + 1, top: 0, bottom: reordered.length }[move];
+  reordered.splice(Math.max(0, Math.min(target, reordered.length)), 0, id);
+
+  let next = 0;
+  return tagOrder.map((tagId) => (isSibling(tagId) ? reordered[next++] : tagId));
+}
+
+export function sortTagsAlphabetically(tagDefinitions: TagDefinitions, tagOrder: string[]): string[] {
+  return [...tagOrder].sort((a, b) =>
+    (tagDefinitions[a]?.name ?? "").localeCompare(tagDefinitions[b]?.name ?? "", undefined, { sensitivity: "base" }),
+  );
+}
+
+/**
+ * Resolves a typed tag name to one tag, most exact match first: the full path or
+ * name, then a path or name starting with the text, then anything containing it,
+ * then a fuzzy match unless `fuzzy` is off. Ties go to the tag that comes first in
+ * the tree. A leading `#` is ignored, so `#work` and `work` behave the same.
+ */
+export function findTag(
+  query: string,
+  tagDefinitions: TagDefinitions,
+  tagOrder: string[],
+  { fuzzy = true }: { fuzzy?: boolean } = {},
+): TagDefinition | undefined {
+  const text = query.trim().replace(/^#/, "").toLowerCase();
+  if (!text) return undefined;
+  const candidates = flattenTagTree(tagDefinitions, tagOrder).map(({ def, path }) => ({
+    def,
+    name: def.name.toLowerCase(),
+    path: path.toLowerCase(),
+  }));
+
+  const matchers = [
+    (c: (typeof candidates)[number]) => c.path === text || c.name === text,
+    (c: (typeof candidates)[number]) => c.path.startsWith(text) || c.name.startsWith(text),
+    (c: (typeof candidates)[number]) => c.path.includes(text),
+  ];
+  for (const matches of matchers) {
+    const found = candidates.find(matches);
+    if (found) return found.def;
+  }
+  if (!fuzzy) return undefined;
+  const fuse = new Fuse(candidates, { keys: ["name", "path"], threshold: 0.4 });
+  return fuse.search(text)[0]?.item.def;
+}
@@ -5,9 +5,179 @@ export interface AppTags {
 export interface TagDefinition {
   id: string;
   name: string;
-  color: string;
+  /** Omitted on child tags that inherit their parent's color */
+  color?: string;
+  parentId?: string;
+  /** Smart tags pick up every app matching one of these rules */
+  rules?: TagRule[];
+  /** Name of a Raycast `Icon` (e.g. `Star`) or an emoji; `Icon.Tag` when omitted */
+  icon?: string;
+  description?: string;
+  /** A single letter or digit that filters Browse Apps by this tag */
+  shortcut?: string;
+}
+
+export type TagRuleField = "bundleId" | "path" | "name";
+
+export interface TagRule {
+  field: TagRuleField;
+  kind: "glob" | "regex" | "prefix";
+  pattern: string;
+}
+
+export type TagSource = { type: "manual" } | { type: "rule"; rule: TagRule };
+
+/** Why an app is left out of Browse Apps */
+export type HiddenReason = { type: "manual" } | { type: "rule"; rule: TagRule };
+
+export interface AppTagSources {
+  [bundleIdOrPath: string]: { [tagId: string]: TagSource };
+}
+
+export type TagInput = Omit<TagDefinition, "id">;
+
+export type BulkTagMode = "add" | "remove";
+
+/** What happens to the children of a deleted parent tag */
+export type ChildTagStrategy = "promote" | "delete";
+
+/** User-defined search terms and name of one app */
+export interface AppDetails {
+  /** Shown instead of the app's own name */
+  displayName?: string;
+  /** Other names the app should be found by, e.g. `ps` for Photoshop */
+  aliases?: string[];
+  keywords?: string[];
+}
+
+export interface AppDetailsMap {
+  [bundleIdOrPath: string]: AppDetails;
 }
 
 export interface TagDefinitions {
   [id: string]: TagDefinition;
 }
+
+export interface QuarantinedEntry {
+  key: string;
+  value: string;
+  reason: string;
+  quarantinedAt: number;
+}
+
+export interface TagDatabase {
+  version: number;
+  tagDefinitions: TagDefinitions;
+  tagOrder: string[];
+  appTags: AppTags;
+  /** Smart tags an app was manually taken out of */
+  appTagExcludes: AppTags;
+  appDetails: AppDetailsMap;
+  /** Bundle ids or paths of apps hidden by hand */
+  hiddenApps: string[];
+  /** Apps matching any of these are hidden too */
+  ignoreRules: TagRule[];
+  /** Bundle ids or paths of the Favorites, in the order they are shown */
+  pinnedApps: string[];
+  quarantine: QuarantinedEntry[];
+}
+
+/**
+ * Values to write back into a database to reverse a change. `null` marks a key
+ * that did not exist before and has to be removed again.
+ */
+export interface DatabasePatch {
+  tagDefinitions?: { [id: string]: TagDefinition | null };
+  tagOrder?: string[];
+  appTags?: { [bundleIdOrPath: string]: string[] | null };
+  appTagExcludes?: { [bundleIdOrPath: string]: string[] | null };
+  appDetails?: { [bundleIdOrPath: string]: AppDetails | null };
+  hiddenApps?: string[];
+  ignoreRules?: TagRule[];
+  pinnedApps?: string[];
+}
+
+/** A recorded tag change, most recent first in the history */
+export interface TagOperation {
+  id: string;
+  label: string;
+  timestamp: number;
+  inverse: DatabasePatch;
+}
+
+/** Launch timestamps per app, most recent first */
+export interface LaunchHistory {
+  [bundleIdOrPath: string]: number[];
+}
+
+export type ViewMode = "list" | "grid";
+
+/** What an app bundle says about itself in its Info.plist, plus file system dates */
+export interface AppBundleInfo {
+  bundleId?: string;
+  /** `CFBundleShortVersionString`, e.g. `1.92.0` */
+  version?: string;
+  /** `CFBundleVersion`, the build number */
+  build?: string;
+  minimumSystemVersion?: string;
+  /** `LSApplicationCategoryType`, e.g. `public.app-category.developer-tools` */
+  category?: string;
+  copyright?: string;
+  modifiedAt: number;
+}
+
+/** What to tell the user after acting on several apps at once */
+export interface ActionSummary {
+  title: string;
+  message?: string;
+  failed: boolean;
+}
+
+export interface LaunchTagArguments {
+  tag: string;
+  action?: "open" | "quit";
+}
+
+export type ExportFormat = "json" | "csv";
+
+/** `merge` adds to the current tags, `replace` swaps all tags and assignments for the imported ones */
+export type ImportMode = "merge" | "replace";
+
+/** Validated import data. Tags are identified by their full path (`Work/Design`), not by id. */
+export interface TagImport {
+  format: ExportFormat;
+  /** In display order; parents always come before their children */
+  tags: { path: string; def: Omit<TagInput, "parentId"> }[];
+  appTags: { [bundleIdOrPath: string]: string[] };
+  appTagExcludes: { [bundleIdOrPath: string]: string[] };
+}
+
+/** What an import changes, by tag path */
+export interface ImportSummary {
+  createdTags: string[];
+  updatedTags: string[];
+  removedTags: string[];
+  changedApps: number;
+  addedAssignments: number;
+  removedAssignments: number;
+}
+
+/** Parts of the database that are merged key by key when syncing with a file */
+export type SyncRecordPart = "tagDefinitions" | "appTags" | "appTagExcludes" | "appDetails";
+
+/** A key this machine and the sync file both changed since they last agreed */
+export interface SyncConflict {
+  part: SyncRecordPart;
+  key: string;
+  /** This machine's value, `null` when it was deleted here */
+  mine: unknown;
+  /** The file's value, which is kept until the conflict is resolved; `null` when deleted there */
+  theirs: unknown;
+  detectedAt: number;
+}
+
+export interface LaunchpadPreferences {
+  sortOrder: "frecency" | "alphabetical";
+  /** JSON file the tag database is synced with, if any */
+  syncFile?: string;
+}
@@ -0,0 +1,11 @@
+import { resolve } from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@raycast/api": resolve(__dirname, "src/__mocks__/raycast-api.ts") },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});